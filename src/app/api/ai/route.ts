@@ -0,0 +1,175 @@
+// Forwards analysis and chat completions to OpenAI so the API key never reaches the browser
+import { NextRequest, NextResponse } from 'next/server';
+import { AIProxyErrorCode, AIProxyPurpose, validateAIProxyRequest } from '@/lib/aiProxy';
+
+const MAX_BODY_BYTES = 128 * 1024;
+const MAX_CLIENTS = 5000;
+const UPSTREAM_TIMEOUT = 20000; // 20 seconds
+
+const OPENAI_BASE_URL = (process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1').replace(/\/+$/, '');
+const OPENAI_MODEL = process.env.OPENAI_MODEL || 'gpt-3.5-turbo';
+// Models clients may ask for; anything else is rejected so the bill stays predictable
+const ALLOWED_MODELS = new Set(
+  (process.env.OPENAI_ALLOWED_MODELS || OPENAI_MODEL).split(',').map(model => model.trim()).filter(Boolean)
+);
+
+// Per-client limits, previously enforced in the browser by AIService
+const RATE_LIMITS: Record<AIProxyPurpose, { requestsPerWindow: number; minInterval: number }> = {
+  analysis: { requestsPerWindow: 3, minInterval: 2000 },
+  chat: { requestsPerWindow: 10, minInterval: 0 },
+};
+const RATE_LIMIT_WINDOW = 60 * 1000; // 1 minute
+
+// Where the client address comes from. Forwarded headers can be set by the client, so they are
+// only read when a platform or proxy is known to overwrite them: CLIENT_IP_HEADER names a header
+// the platform sets (Vercel sets x-real-ip), TRUSTED_PROXY_COUNT is the number of proxies in
+// front of the server that append to X-Forwarded-For.
+const CLIENT_IP_HEADER = (process.env.CLIENT_IP_HEADER || (process.env.VERCEL ? 'x-real-ip' : '')).toLowerCase();
+const TRUSTED_PROXY_COUNT = Math.max(0, parseInt(process.env.TRUSTED_PROXY_COUNT || '0', 10) || 0);
+// In development everything comes from one machine, so a single bucket is fine
+const IS_DEVELOPMENT = process.env.NODE_ENV !== 'production';
+
+interface RateLimitState {
+  lastRequestTime: number;
+  requestCount: number;
+  resetTime: number;
+}
+
+// In-memory only: limits reset when the server restarts
+const rateLimitsByClient = new Map<string, RateLimitState>();
+
+function errorResponse(status: number, code: AIProxyErrorCode, message: string, retryAfter?: number) {
+  return NextResponse.json(
+    { error: { code, message, retryAfter } },
+    { status, headers: retryAfter ? { 'Retry-After': String(retryAfter) } : undefined }
+  );
+}
+
+// The client address as reported by the platform or a trusted proxy, or null if there is none
+function getClientAddress(request: NextRequest): string | null {
+  if (CLIENT_IP_HEADER) {
+    return request.headers.get(CLIENT_IP_HEADER)?.trim() || null;
+  }
+  if (TRUSTED_PROXY_COUNT > 0) {
+    // Each trusted proxy appends the address it saw; anything further left came from the client
+    const hops = (request.headers.get('x-forwarded-for') ?? '').split(',').map(hop => hop.trim()).filter(Boolean);
+    return hops[hops.length - TRUSTED_PROXY_COUNT] ?? null;
+  }
+  return null;
+}
+
+function getClientKey(request: NextRequest, purpose: AIProxyPurpose): string | null {
+  const clientAddress = getClientAddress(request) ?? (IS_DEVELOPMENT ? 'local' : null);
+  return clientAddress ? `${purpose}:${clientAddress}` : null;
+}
+
+function pruneRateLimits(now: number) {
+  for (const [clientKey, state] of rateLimitsByClient) {
+    if (now > state.resetTime) {
+      rateLimitsByClient.delete(clientKey);
+    }
+  }
+}
+
+// Returns the seconds to wait when the client is over its limit, otherwise records the request
+function checkRateLimit(clientKey: string, purpose: AIProxyPurpose, now: number): number | null {
+  const limits = RATE_LIMITS[purpose];
+  let state = rateLimitsByClient.get(clientKey);
+
+  // Reset count if window has passed
+  if (!state || now > state.resetTime) {
+    if (!state && rateLimitsByClient.size >= MAX_CLIENTS) {
+      pruneRateLimits(now);
+    }
+    state = { lastRequestTime: 0, requestCount: 0, resetTime: now + RATE_LIMIT_WINDOW };
+    rateLimitsByClient.set(clientKey, state);
+  }
+
+  if (state.requestCount >= limits.requestsPerWindow) {
+    return Math.ceil((state.resetTime - now) / 1000);
+  }
+  if (now - state.lastRequestTime < limits.minInterval) {
+    return Math.ceil((limits.minInterval - (now - state.lastRequestTime)) / 1000);
+  }
+
+  state.lastRequestTime = now;
+  state.requestCount++;
+  return null;
+}
+
+export async function POST(request: NextRequest) {
+  const apiKey = process.env.OPENAI_API_KEY;
+  if (!apiKey) {
+    return errorResponse(503, 'not_configured', 'AI is not configured on this server');
+  }
+
+  let data: unknown;
+  try {
+    const body = await request.text();
+    if (Buffer.byteLength(body, 'utf8') > MAX_BODY_BYTES) {
+      return errorResponse(413, 'payload_too_large', `Payload must be under ${MAX_BODY_BYTES} bytes`);
+    }
+    data = JSON.parse(body);
+  } catch {
+    return errorResponse(400, 'invalid_json', 'Request body must be valid JSON');
+  }
+
+  const validation = validateAIProxyRequest(data);
+  if (!validation.ok) {
+    return errorResponse(400, 'invalid_payload', validation.error);
+  }
+
+  const { purpose, model, messages, maxTokens, temperature } = validation.request;
+  if (!ALLOWED_MODELS.has(model)) {
+    return errorResponse(400, 'model_not_allowed', `Model "${model}" is not enabled on this server`);
+  }
+
+  // Without a trustworthy client address there is no fair way to rate limit, so refuse rather
+  // than share one bucket between every client
+  const clientKey = getClientKey(request, purpose);
+  if (!clientKey) {
+    console.error('❌ AI proxy cannot identify clients: set CLIENT_IP_HEADER or TRUSTED_PROXY_COUNT');
+    return errorResponse(503, 'not_configured', 'AI rate limiting is not configured on this server');
+  }
+
+  const retryAfter = checkRateLimit(clientKey, purpose, Date.now());
+  if (retryAfter !== null) {
+    return errorResponse(429, 'rate_limited', 'Too many AI requests, try again shortly', retryAfter);
+  }
+
+  try {
+    const response = await fetch(`${OPENAI_BASE_URL}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        model,
+        messages,
+        max_tokens: maxTokens,
+        temperature,
+      }),
+      signal: AbortSignal.timeout(UPSTREAM_TIMEOUT),
+    });
+
+    if (!response.ok) {
+      console.error('❌ OpenAI API Error:', response.status, response.statusText);
+      return errorResponse(502, 'upstream_error', `OpenAI API error: ${response.status}`);
+    }
+
+    const upstream = await response.json();
+    const content = upstream.choices?.[0]?.message?.content;
+    if (typeof content !== 'string') {
+      return errorResponse(502, 'upstream_error', 'OpenAI API returned no message content');
+    }
+
+    return NextResponse.json({ content });
+  } catch (error) {
+    if (error instanceof DOMException && error.name === 'TimeoutError') {
+      return errorResponse(504, 'timeout', 'OpenAI API did not respond in time');
+    }
+    console.error('AI proxy request failed:', error);
+    return errorResponse(502, 'upstream_error', 'Failed to reach OpenAI API');
+  }
+}
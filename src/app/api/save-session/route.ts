@@ -0,0 +1,121 @@
+// Receives session snapshots sent by sendBeacon on tab close and hands them back on the next load
+import { NextRequest, NextResponse } from 'next/server';
+import { SessionBeaconPayload, validateSessionBeaconPayload } from '@/lib/sessionBeacon';
+
+const MAX_BODY_BYTES = 64 * 1024;
+const MAX_SESSIONS_PER_CLIENT = 20;
+const MAX_CLIENTS = 1000;
+const PENDING_TTL = 7 * 24 * 60 * 60 * 1000; // 7 days
+
+interface PendingSession {
+  payload: SessionBeaconPayload;
+  receivedAt: number;
+}
+
+// In-memory only: snapshots are a best-effort bridge until the client reconciles them into IndexedDB
+const pendingByClient = new Map<string, Map<string, PendingSession>>();
+
+function errorResponse(status: number, code: string, message: string) {
+  return NextResponse.json({ error: { code, message } }, { status });
+}
+
+function pruneExpired(now: number) {
+  for (const [clientId, sessions] of pendingByClient) {
+    for (const [sessionId, pending] of sessions) {
+      if (now - pending.receivedAt > PENDING_TTL) {
+        sessions.delete(sessionId);
+      }
+    }
+    if (sessions.size === 0) {
+      pendingByClient.delete(clientId);
+    }
+  }
+}
+
+async function readJson(request: NextRequest): Promise<unknown> {
+  // sendBeacon posts strings as text/plain, so parse the raw body ourselves
+  const body = await request.text();
+  if (body.length > MAX_BODY_BYTES) {
+    throw new RangeError('Payload too large');
+  }
+  return JSON.parse(body);
+}
+
+export async function POST(request: NextRequest) {
+  let data: unknown;
+  try {
+    data = await readJson(request);
+  } catch (error) {
+    if (error instanceof RangeError) {
+      return errorResponse(413, 'payload_too_large', `Payload must be under ${MAX_BODY_BYTES} bytes`);
+    }
+    return errorResponse(400, 'invalid_json', 'Request body must be valid JSON');
+  }
+
+  const validation = validateSessionBeaconPayload(data);
+  if (!validation.ok) {
+    return errorResponse(400, 'invalid_payload', validation.error);
+  }
+
+  const now = Date.now();
+  pruneExpired(now);
+
+  const { payload } = validation;
+  let sessions = pendingByClient.get(payload.clientId);
+  if (!sessions) {
+    if (pendingByClient.size >= MAX_CLIENTS) {
+      return errorResponse(503, 'storage_full', 'Too many pending sessions, try again later');
+    }
+    sessions = new Map();
+    pendingByClient.set(payload.clientId, sessions);
+  }
+
+  // Later beacons for the same session replace earlier ones; drop the oldest when over the cap
+  sessions.delete(payload.sessionId);
+  sessions.set(payload.sessionId, { payload, receivedAt: now });
+  while (sessions.size > MAX_SESSIONS_PER_CLIENT) {
+    const oldest = sessions.keys().next().value as string;
+    sessions.delete(oldest);
+  }
+
+  return NextResponse.json({ ok: true }, { status: 202 });
+}
+
+export async function GET(request: NextRequest) {
+  const clientId = request.nextUrl.searchParams.get('clientId');
+  if (!clientId) {
+    return errorResponse(400, 'missing_client_id', 'clientId query parameter is required');
+  }
+
+  pruneExpired(Date.now());
+  const sessions = Array.from(pendingByClient.get(clientId)?.values() ?? []).map(pending => pending.payload);
+  return NextResponse.json({ sessions });
+}
+
+export async function DELETE(request: NextRequest) {
+  let data: unknown;
+  try {
+    data = await readJson(request);
+  } catch {
+    return errorResponse(400, 'invalid_json', 'Request body must be valid JSON');
+  }
+
+  const { clientId, sessionIds } = (data ?? {}) as { clientId?: unknown; sessionIds?: unknown };
+  if (typeof clientId !== 'string' || !Array.isArray(sessionIds)) {
+    return errorResponse(400, 'invalid_payload', 'clientId and sessionIds are required');
+  }
+
+  const sessions = pendingByClient.get(clientId);
+  if (sessions) {
+    for (const sessionId of sessionIds) {
+      if (typeof sessionId === 'string') {
+        sessions.delete(sessionId);
+      }
+    }
+    if (sessions.size === 0) {
+      pendingByClient.delete(clientId);
+    }
+  }
+
+  return NextResponse.json({ ok: true });
+}
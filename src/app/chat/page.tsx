@@ -3,13 +3,17 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import ChatInterface, { ChatInterfaceRef } from '@/components/chat/ChatInterface';
+import { Message } from '@/components/chat/MessageBubble';
+import SessionPicker from '@/components/chat/SessionPicker';
 import BottomNavigation from '@/components/navigation/BottomNavigation';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
-import { Send, Mic, Clock } from 'lucide-react';
+import { Send, Mic, Clock, History } from 'lucide-react';
 import { useViewportHeight } from '@/lib/useViewportHeight';
+import { useJournalLock } from '@/lib/useJournalLock';
 import { storageService } from '@/lib/storageService';
-import { JournalEntry } from '@/lib/database';
+import { sendSessionBeacon, reconcilePendingSessions } from '@/lib/sessionBeacon';
+import { JournalEntry, ChatSession, ChatMessage } from '@/lib/database';
 
 export default function ChatPage() {
   const router = useRouter();
@@ -17,6 +21,9 @@ export default function ChatPage() {
   const [inputValue, setInputValue] = useState('');
   const [isStorageInitialized, setIsStorageInitialized] = useState(false);
   const [currentSessionId, setCurrentSessionId] = useState<string | null>(null);
+  const [sessionStartTime, setSessionStartTime] = useState<Date | null>(null);
+  const [resumedFrom, setResumedFrom] = useState<Date | null>(null);
+  const [showSessionPicker, setShowSessionPicker] = useState(false);
   const [sessionEntries, setSessionEntries] = useState<JournalEntry[]>([]);
   const [lastSaveTime, setLastSaveTime] = useState<Date | null>(null);
   const [hasUnsavedEntries, setHasUnsavedEntries] = useState(false);
@@ -34,10 +41,28 @@ export default function ChatPage() {
         await storageService.initialize();
         setIsStorageInitialized(true);
         console.log('Storage service initialized successfully');
+
+        // Apply sessions that were only saved by the unload beacon last time
+        try {
+          const reconciled = await reconcilePendingSessions(payload =>
+            storageService.applySessionSnapshot({
+              sessionId: payload.sessionId,
+              entryIds: payload.entryIds,
+              startTime: new Date(payload.startTime),
+              endTime: new Date(payload.endTime),
+            }).then(() => undefined)
+          );
+          if (reconciled > 0) {
+            console.log(`Recovered ${reconciled} session(s) saved on page unload`);
+          }
+        } catch (error) {
+          console.warn('Failed to reconcile pending sessions:', error);
+        }
         
         // Start a new chat session
         const sessionId = crypto.randomUUID();
         setCurrentSessionId(sessionId);
+        setSessionStartTime(new Date());
         console.log(`Started chat session: ${sessionId}`);
       } catch (error) {
         console.error('Failed to initialize storage service:', error);
@@ -57,7 +82,7 @@ export default function ChatPage() {
       inactivityTimerRef.current = setTimeout(async () => {
         if (currentSessionId && sessionEntries.length > 0) {
           try {
-            await storageService.saveChatSession(sessionEntries, currentSessionId);
+            await storageService.saveChatSession(sessionEntries, currentSessionId, sessionStartTime ?? undefined);
             console.log(`Session ${currentSessionId} saved due to inactivity (${sessionEntries.length} entries)`);
           } catch (error) {
             console.error('Failed to save session on inactivity:', error);
@@ -88,22 +113,20 @@ export default function ChatPage() {
       document.removeEventListener('keypress', handleUserActivity);
       document.removeEventListener('scroll', handleUserActivity);
     };
-  }, [currentSessionId, sessionEntries]);
+  }, [currentSessionId, sessionEntries, sessionStartTime]);
 
   // Page unload save - save session when user leaves the page
   useEffect(() => {
     const handleBeforeUnload = (event: BeforeUnloadEvent) => {
       if (currentSessionId && sessionEntries.length > 0) {
         // Use sendBeacon for reliable saving on page unload
-        const sessionData = {
+        // Try to save synchronously if possible
+        sendSessionBeacon({
           sessionId: currentSessionId,
           entryIds: sessionEntries.map(entry => entry.id),
-          startTime: new Date().toISOString(),
+          startTime: (sessionStartTime ?? new Date()).toISOString(),
           endTime: new Date().toISOString(),
-        };
-        
-        // Try to save synchronously if possible
-        navigator.sendBeacon('/api/save-session', JSON.stringify(sessionData));
+        });
         
         // Also try the async save (may not complete before page unloads)
         saveCurrentSession();
@@ -112,12 +135,12 @@ export default function ChatPage() {
 
     window.addEventListener('beforeunload', handleBeforeUnload);
     return () => window.removeEventListener('beforeunload', handleBeforeUnload);
-  }, [currentSessionId, sessionEntries]);
+  }, [currentSessionId, sessionEntries, sessionStartTime]);
 
   const saveCurrentSession = async () => {
     if (currentSessionId && sessionEntries.length > 0) {
       try {
-        await storageService.saveChatSession(sessionEntries, currentSessionId);
+        await storageService.saveChatSession(sessionEntries, currentSessionId, sessionStartTime ?? undefined);
         console.log(`✅ Session ${currentSessionId} saved with ${sessionEntries.length} entry IDs (no duplicate storage)`);
         setLastSaveTime(new Date());
         setHasUnsavedEntries(false);
@@ -138,7 +161,12 @@ export default function ChatPage() {
     // Start new session
     const newSessionId = crypto.randomUUID();
     setCurrentSessionId(newSessionId);
+    setSessionStartTime(new Date());
+    setResumedFrom(null);
     setSessionEntries([]);
+    setHasUnsavedEntries(false);
+    setShowSessionPicker(false);
+    chatInterfaceRef.current?.reset();
     
     console.log(`🔄 Started new session: ${newSessionId}`);
     
@@ -146,10 +174,77 @@ export default function ChatPage() {
     console.log('✅ Session ended and new session started');
   };
 
-  const handleSaveEntry = async (entry: { text: string; emojis: string[]; timestamp: Date }) => {
+  // Reopen a past session: restore its transcript and keep appending to its entries
+  const handleResumeSession = async (session: ChatSession) => {
+    setShowSessionPicker(false);
+    if (session.id === currentSessionId) return;
+
+    try {
+      await saveCurrentSession();
+
+      const [sessionWithEntries, transcript] = await Promise.all([
+        storageService.getChatSessionWithEntries(session.id),
+        storageService.getChatMessages(session.id),
+      ]);
+
+      setCurrentSessionId(session.id);
+      setSessionStartTime(session.startTime);
+      setResumedFrom(session.startTime);
+      setSessionEntries(sessionWithEntries?.entries ?? []);
+      setHasUnsavedEntries(false);
+      restoreTranscript(transcript);
+
+      console.log(`🔁 Resumed session: ${session.id}`);
+    } catch (error) {
+      console.error('Failed to resume session:', error);
+    }
+  };
+
+  const restoreTranscript = (transcript: ChatMessage[]) => {
+    chatInterfaceRef.current?.restore(transcript.map(message => ({
+      message: {
+        id: message.id,
+        type: message.type,
+        content: typeof message.content === 'string' ? message.content : '[Unable to decrypt message]',
+        timestamp: message.timestamp,
+        emojis: message.emojis,
+        entryId: message.entryId,
+      },
+      sequence: message.sequence,
+    })));
+  };
+
+  // Save the session while the key is still loaded, clear the decrypted conversation from the
+  // screen on lock and bring it back after unlock
+  useJournalLock({
+    onBeforeLock: async () => {
+      await saveCurrentSession();
+    },
+    onLock: () => {
+      chatInterfaceRef.current?.reset();
+      setSessionEntries([]);
+      setHasUnsavedEntries(false);
+      setInputValue('');
+      setShowSessionPicker(false);
+    },
+    onUnlock: () => {
+      if (!currentSessionId) return;
+      Promise.all([
+        storageService.getChatSessionWithEntries(currentSessionId),
+        storageService.getChatMessages(currentSessionId),
+      ])
+        .then(([sessionWithEntries, transcript]) => {
+          setSessionEntries(sessionWithEntries?.entries ?? []);
+          restoreTranscript(transcript);
+        })
+        .catch(error => console.error('Failed to restore conversation after unlock:', error));
+    },
+  });
+
+  const handleSaveEntry = async (entry: { text: string; emojis: string[]; timestamp: Date }): Promise<string | null> => {
     if (!isStorageInitialized) {
       console.warn('Storage not initialized yet');
-      return;
+      return null;
     }
 
     try {
@@ -170,10 +265,32 @@ export default function ChatPage() {
       
       // You could add a toast notification here
       // toast.success('Journal entry saved!');
+      return savedEntry.id;
     } catch (error) {
       console.error('Failed to save journal entry:', error);
       // You could add an error toast here
       // toast.error('Failed to save entry. Please try again.');
+      return null;
+    }
+  };
+
+  // Persist every transcript turn, user and companion, under the current session
+  const handlePersistMessage = async (message: Message, sequence: number) => {
+    if (!isStorageInitialized || !currentSessionId) return;
+
+    try {
+      await storageService.saveChatMessage({
+        id: message.id,
+        sessionId: currentSessionId,
+        sequence,
+        type: message.type,
+        content: message.content,
+        emojis: message.emojis,
+        entryId: message.entryId,
+        timestamp: message.timestamp,
+      });
+    } catch (error) {
+      console.error('Failed to save chat message:', error);
     }
   };
 
@@ -221,9 +338,36 @@ export default function ChatPage() {
     <div className="h-screen mobile-viewport-fix tablet-viewport-fix desktop-viewport-fix bg-gray-50">
       {/* Chat Messages Area - with bottom padding for input and navigation */}
       <div className="h-full pb-24 overflow-hidden">
-        <ChatInterface ref={chatInterfaceRef} onSaveEntry={handleSaveEntry} />
+        <ChatInterface
+          ref={chatInterfaceRef}
+          onSaveEntry={handleSaveEntry}
+          onPersistMessage={handlePersistMessage}
+          subtitle={resumedFrom
+            ? `Continued from ${resumedFrom.toLocaleDateString([], { month: 'short', day: 'numeric' })}`
+            : 'New conversation'}
+          headerAction={
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={() => setShowSessionPicker(true)}
+              disabled={!isStorageInitialized}
+              className="text-gray-500 hover:text-gray-700"
+            >
+              <History className="w-5 h-5" />
+            </Button>
+          }
+        />
       </div>
 
+      {showSessionPicker && (
+        <SessionPicker
+          currentSessionId={currentSessionId}
+          onSelect={handleResumeSession}
+          onNewSession={handleEndSession}
+          onClose={() => setShowSessionPicker(false)}
+        />
+      )}
+
       {/* Input Area - fixed position directly on top of bottom navigation */}
       <div className="fixed left-0 right-0 bg-white border-t border-gray-200 p-4 z-30" style={{ bottom: 'calc(64px + env(safe-area-inset-bottom))' }}>
         {/* Simple status indicator */}
@@ -1,6 +1,6 @@
 'use client';
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import { useRouter } from 'next/navigation';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -13,11 +13,20 @@ import {
   Heart,
   Clock,
   Tag,
-  Smile
+  Smile,
+  MessageCircle,
+  ShieldOff,
+  Check
 } from 'lucide-react';
 import { storageService } from '@/lib/storageService';
-import { JournalEntry } from '@/lib/database';
+import { Emotion, MOOD_EMOJIS, isEmotion, suggestMood } from '@/lib/emotions';
+import { JournalEntry, ChatSession, EntryPageCursor } from '@/lib/database';
+import ConversationReplay from '@/components/chat/ConversationReplay';
 import { useViewportHeight } from '@/lib/useViewportHeight';
+import { useJournalLock } from '@/lib/useJournalLock';
+
+const PAGE_SIZE = 20;
+const SEARCH_DEBOUNCE_MS = 300;
 
 export default function HistoryPage() {
   const router = useRouter();
@@ -26,30 +35,63 @@ export default function HistoryPage() {
   const [filteredEntries, setFilteredEntries] = useState<JournalEntry[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [searchQuery, setSearchQuery] = useState('');
+  // Matches across the whole journal, not just the loaded pages; null when not searching
+  const [searchResults, setSearchResults] = useState<JournalEntry[] | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
   const [selectedDate, setSelectedDate] = useState('');
   const [selectedMood, setSelectedMood] = useState('');
-  const [needsPassword, setNeedsPassword] = useState(false);
-  const [password, setPassword] = useState('');
+  const [totalEntries, setTotalEntries] = useState(0);
+  const [nextCursor, setNextCursor] = useState<EntryPageCursor | null>(null);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const scrollContainerRef = useRef<HTMLDivElement>(null);
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+  const [view, setView] = useState<'entries' | 'conversations'>('entries');
+  const [sessions, setSessions] = useState<ChatSession[] | null>(null);
+  const [selectedSession, setSelectedSession] = useState<ChatSession | null>(null);
 
   // Fix viewport height for mobile devices
   useViewportHeight();
 
+  const loadFirstPage = async () => {
+    const [page, count] = await Promise.all([
+      storageService.getJournalEntriesPage(PAGE_SIZE),
+      storageService.getJournalEntryCount(),
+    ]);
+    setTotalEntries(count);
+    setNextCursor(page.nextCursor);
+    return page.entries;
+  };
+
+  const showFirstPage = async () => {
+    const loadedEntries = await loadFirstPage();
+    setEntries(loadedEntries);
+    setFilteredEntries(loadedEntries);
+  };
+
+  // Drop decrypted entries and transcripts from memory when the journal locks
+  useJournalLock({
+    onLock: () => {
+      setEntries([]);
+      setFilteredEntries([]);
+      setNextCursor(null);
+      setSessions(null);
+      setSelectedSession(null);
+      setSearchQuery('');
+      setSearchResults(null);
+    },
+    onUnlock: () => {
+      showFirstPage().catch(error => console.error('Failed to reload journal entries:', error));
+    },
+  });
+
   useEffect(() => {
     const loadEntries = async () => {
       try {
         await storageService.initialize();
-        const loadedEntries = await storageService.getAllJournalEntries();
-        
-        // Check if we have encrypted entries that need password
-        const hasEncryptedEntries = loadedEntries.some(entry => 
-          entry.encrypted && typeof entry.content !== 'string'
-        );
-        
-        if (hasEncryptedEntries) {
-          setNeedsPassword(true);
-        } else {
-          setEntries(loadedEntries);
-          setFilteredEntries(loadedEntries);
+
+        // While locked the shared unlock screen covers the page; entries load once it unlocks
+        if (!(await storageService.isLocked())) {
+          await showFirstPage();
         }
       } catch (error) {
         console.error('Failed to load journal entries:', error);
@@ -59,38 +101,83 @@ export default function HistoryPage() {
     };
 
     loadEntries();
-  }, []);
+  }, []); // eslint-disable-line react-hooks/exhaustive-deps
 
-  const handlePasswordSubmit = async () => {
-    if (!password.trim()) return;
-    
+  const loadMoreEntries = useCallback(async () => {
+    if (!nextCursor || isLoadingMore) return;
+
+    setIsLoadingMore(true);
     try {
-      setIsLoading(true);
-      await storageService.initialize(password);
-      const loadedEntries = await storageService.getAllJournalEntries();
-      setEntries(loadedEntries);
-      setFilteredEntries(loadedEntries);
-      setNeedsPassword(false);
-      setPassword('');
+      const page = await storageService.getJournalEntriesPage(PAGE_SIZE, nextCursor);
+      setEntries(prev => [...prev, ...page.entries]);
+      setNextCursor(page.nextCursor);
     } catch (error) {
-      console.error('Failed to decrypt entries:', error);
-      alert('Invalid password. Please try again.');
+      console.error('Failed to load more journal entries:', error);
     } finally {
-      setIsLoading(false);
+      setIsLoadingMore(false);
     }
-  };
+  }, [nextCursor, isLoadingMore]);
 
+  // Load the next page when the end of the list scrolls into view
   useEffect(() => {
-    let filtered = entries;
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !nextCursor) return;
 
-    // Filter by search query
-    if (searchQuery) {
-      filtered = filtered.filter(entry => {
-        const content = typeof entry.content === 'string' ? entry.content : '';
-        return content.toLowerCase().includes(searchQuery.toLowerCase()) ||
-          entry.tags?.some(tag => tag.toLowerCase().includes(searchQuery.toLowerCase()));
-      });
+    const observer = new IntersectionObserver(
+      (observed) => {
+        if (observed.some(item => item.isIntersecting)) {
+          loadMoreEntries();
+        }
+      },
+      { root: scrollContainerRef.current, rootMargin: '200px' }
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [nextCursor, loadMoreEntries, isLoading, view]);
+
+  const showConversations = async () => {
+    setView('conversations');
+    if (sessions) return;
+
+    try {
+      const loadedSessions = await storageService.getAllChatSessions();
+      setSessions(loadedSessions.sort((a, b) => b.startTime.getTime() - a.startTime.getTime()));
+    } catch (error) {
+      console.error('Failed to load chat sessions:', error);
+      setSessions([]);
     }
+  };
+
+  // Encrypted journals are searched through the keyword index, so only matches get decrypted
+  useEffect(() => {
+    if (!searchQuery.trim()) {
+      setSearchResults(null);
+      setIsSearching(false);
+      return;
+    }
+
+    let cancelled = false;
+    setIsSearching(true);
+    const timer = setTimeout(async () => {
+      try {
+        const results = await storageService.searchJournalEntries(searchQuery);
+        if (!cancelled) setSearchResults(results);
+      } catch (error) {
+        console.error('Failed to search journal entries:', error);
+        if (!cancelled) setSearchResults([]);
+      } finally {
+        if (!cancelled) setIsSearching(false);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [searchQuery]);
+
+  useEffect(() => {
+    let filtered = searchResults ?? entries;
 
     // Filter by date
     if (selectedDate) {
@@ -107,7 +194,45 @@ export default function HistoryPage() {
     }
 
     setFilteredEntries(filtered);
-  }, [entries, searchQuery, selectedDate, selectedMood]);
+  }, [entries, searchResults, selectedDate, selectedMood]);
+
+  // Private entries are never sent to the AI provider
+  const handleToggleAIPrivate = async (entry: JournalEntry) => {
+    try {
+      const updatedEntry = await storageService.updateJournalEntry(entry.id, { aiPrivate: !entry.aiPrivate });
+      if (!updatedEntry) return;
+
+      const replaceEntry = (list: JournalEntry[]) => list.map(item => item.id === updatedEntry.id ? updatedEntry : item);
+      setEntries(replaceEntry);
+      setSearchResults(prev => prev && replaceEntry(prev));
+    } catch (error) {
+      console.error('Failed to update entry privacy:', error);
+    }
+  };
+
+  // Entries without a mood get one suggested from their text, classified on this device
+  const moodSuggestions = useMemo(() => {
+    const suggestions = new Map<string, Emotion>();
+    for (const entry of filteredEntries) {
+      if (entry.mood || typeof entry.content !== 'string') continue;
+      const mood = suggestMood(entry.content, entry.emojis);
+      if (mood) suggestions.set(entry.id, mood);
+    }
+    return suggestions;
+  }, [filteredEntries]);
+
+  const handleAcceptMood = async (entry: JournalEntry, mood: Emotion) => {
+    try {
+      const updatedEntry = await storageService.updateJournalEntry(entry.id, { mood });
+      if (!updatedEntry) return;
+
+      const replaceEntry = (list: JournalEntry[]) => list.map(item => item.id === updatedEntry.id ? updatedEntry : item);
+      setEntries(replaceEntry);
+      setSearchResults(prev => prev && replaceEntry(prev));
+    } catch (error) {
+      console.error('Failed to update entry mood:', error);
+    }
+  };
 
   const formatDate = (date: Date): string => {
     return new Intl.DateTimeFormat('en-US', {
@@ -120,19 +245,7 @@ export default function HistoryPage() {
   };
 
   const getMoodEmoji = (mood?: string): string => {
-    const moodEmojis: { [key: string]: string } = {
-      happy: '😊',
-      sad: '😢',
-      excited: '🤩',
-      calm: '😌',
-      anxious: '😰',
-      grateful: '🙏',
-      confused: '😕',
-      proud: '😎',
-      tired: '😴',
-      energetic: '⚡',
-    };
-    return moodEmojis[mood || ''] || '😐';
+    return isEmotion(mood) ? MOOD_EMOJIS[mood] : '😐';
   };
 
   const getUniqueMoods = (): string[] => {
@@ -148,41 +261,6 @@ export default function HistoryPage() {
     setSelectedMood('');
   };
 
-  if (needsPassword) {
-    return (
-      <div className="h-screen mobile-viewport-fix tablet-viewport-fix desktop-viewport-fix flex items-center justify-center bg-gray-50">
-        <div className="w-full max-w-md mx-4">
-          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
-            <div className="text-center mb-6">
-              <Calendar className="w-12 h-12 mx-auto mb-4 text-blue-500" />
-              <h2 className="text-xl font-semibold text-gray-900 mb-2">Enter Password</h2>
-              <p className="text-gray-600">Your journal entries are encrypted. Please enter your password to view them.</p>
-            </div>
-            
-            <div className="space-y-4">
-              <Input
-                type="password"
-                placeholder="Enter your password"
-                value={password}
-                onChange={(e) => setPassword(e.target.value)}
-                onKeyPress={(e) => e.key === 'Enter' && handlePasswordSubmit()}
-                className="w-full"
-              />
-              
-              <Button 
-                onClick={handlePasswordSubmit}
-                disabled={!password.trim() || isLoading}
-                className="w-full"
-              >
-                {isLoading ? 'Decrypting...' : 'Decrypt Entries'}
-              </Button>
-            </div>
-          </div>
-        </div>
-      </div>
-    );
-  }
-
   if (isLoading) {
     return (
       <div className="h-screen mobile-viewport-fix tablet-viewport-fix desktop-viewport-fix flex items-center justify-center bg-gray-50">
@@ -221,20 +299,72 @@ export default function HistoryPage() {
 
   return (
     <div className="h-screen mobile-viewport-fix tablet-viewport-fix desktop-viewport-fix bg-gray-50">
-      <div className="h-full overflow-y-auto">
+      <div ref={scrollContainerRef} className="h-full overflow-y-auto">
         {/* Header */}
         <div className="bg-white border-b border-gray-200 p-4">
           <h1 className="text-xl font-semibold text-gray-900">Journal History</h1>
-          <p className="text-sm text-gray-500">{filteredEntries.length} of {entries.length} entries</p>
+          <p className="text-sm text-gray-500">
+            {view === 'entries'
+              ? `${filteredEntries.length} of ${totalEntries} entries`
+              : `${sessions?.length ?? 0} conversations`}
+          </p>
+          <div className="flex space-x-2 mt-3">
+            <Button
+              onClick={() => setView('entries')}
+              variant={view === 'entries' ? 'default' : 'outline'}
+              size="sm"
+            >
+              Entries
+            </Button>
+            <Button
+              onClick={showConversations}
+              variant={view === 'conversations' ? 'default' : 'outline'}
+              size="sm"
+            >
+              Conversations
+            </Button>
+          </div>
         </div>
 
+        {view === 'conversations' ? (
+          <div className="p-4 space-y-4">
+            {selectedSession ? (
+              <ConversationReplay session={selectedSession} onBack={() => setSelectedSession(null)} />
+            ) : sessions === null ? (
+              <p className="text-center text-sm text-gray-500 py-8">Loading conversations...</p>
+            ) : sessions.length === 0 ? (
+              <div className="text-center py-12">
+                <MessageCircle className="w-12 h-12 mx-auto mb-4 text-gray-300" />
+                <h3 className="text-lg font-medium text-gray-900 mb-2">No conversations yet</h3>
+                <p className="text-gray-500">Chat with your companion to see conversations here</p>
+              </div>
+            ) : (
+              sessions.map(session => (
+                <button
+                  key={session.id}
+                  onClick={() => setSelectedSession(session)}
+                  className="w-full text-left bg-white rounded-lg p-4 border border-gray-200 hover:bg-gray-50"
+                >
+                  <div className="flex items-center space-x-2">
+                    <MessageCircle className="w-4 h-4 text-gray-400" />
+                    <span className="text-sm text-gray-900">{formatDate(session.startTime)}</span>
+                  </div>
+                  <p className="text-xs text-gray-500 mt-1">
+                    {session.entryIds.length} {session.entryIds.length === 1 ? 'entry' : 'entries'}
+                  </p>
+                </button>
+              ))
+            )}
+          </div>
+        ) : (
+        <>
         {/* Filters */}
         <div className="bg-white border-b border-gray-200 p-4 space-y-4">
           {/* Search */}
           <div className="relative">
             <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-400" />
             <Input
-              placeholder="Search entries..."
+              placeholder="Search entries by word..."
               value={searchQuery}
               onChange={(e) => setSearchQuery(e.target.value)}
               className="pl-10"
@@ -281,7 +411,9 @@ export default function HistoryPage() {
           {filteredEntries.length === 0 ? (
             <div className="text-center py-12">
               <Calendar className="w-12 h-12 mx-auto mb-4 text-gray-300" />
-              <h3 className="text-lg font-medium text-gray-900 mb-2">No entries found</h3>
+              <h3 className="text-lg font-medium text-gray-900 mb-2">
+                {isSearching ? 'Searching...' : 'No entries found'}
+              </h3>
               <p className="text-gray-500">
                 {entries.length === 0 
                   ? "Start journaling to see your entries here"
@@ -300,11 +432,35 @@ export default function HistoryPage() {
                       {formatDate(entry.timestamp)}
                     </span>
                   </div>
-                  {entry.mood && (
-                    <Badge variant="secondary" className="text-xs">
-                      {getMoodEmoji(entry.mood)} {entry.mood}
-                    </Badge>
-                  )}
+                  <div className="flex items-center space-x-2">
+                    {entry.mood && (
+                      <Badge variant="secondary" className="text-xs">
+                        {getMoodEmoji(entry.mood)} {entry.mood}
+                      </Badge>
+                    )}
+                    {moodSuggestions.has(entry.id) && (
+                      <Button
+                        onClick={() => handleAcceptMood(entry, moodSuggestions.get(entry.id)!)}
+                        variant="outline"
+                        size="sm"
+                        className="h-6 px-2 text-xs border-dashed text-gray-600"
+                        title="Suggested from this entry. Click to set as its mood."
+                      >
+                        {getMoodEmoji(moodSuggestions.get(entry.id))} {moodSuggestions.get(entry.id)}?
+                        <Check className="w-3 h-3 ml-1" />
+                      </Button>
+                    )}
+                    <Button
+                      onClick={() => handleToggleAIPrivate(entry)}
+                      variant={entry.aiPrivate ? "default" : "outline"}
+                      size="sm"
+                      className="h-6 px-2 text-xs"
+                      title={entry.aiPrivate ? "Never sent to AI. Click to allow." : "Click to never send this entry to AI"}
+                    >
+                      <ShieldOff className="w-3 h-3 mr-1" />
+                      {entry.aiPrivate ? "Private" : "Share with AI"}
+                    </Button>
+                  </div>
                 </div>
 
                 {/* Entry Content */}
@@ -342,7 +498,16 @@ export default function HistoryPage() {
               </div>
             ))
           )}
+
+          {/* Infinite scroll sentinel */}
+          {nextCursor && searchResults === null && (
+            <div ref={loadMoreRef} className="py-4 text-center text-sm text-gray-500">
+              {isLoadingMore ? 'Loading more entries...' : ''}
+            </div>
+          )}
         </div>
+        </>
+        )}
       </div>
       
       {/* Bottom Navigation */}
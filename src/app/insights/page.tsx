@@ -4,19 +4,38 @@ import React, { useState, useEffect, useRef } from 'react';
 import { useRouter } from 'next/navigation';
 import BottomNavigation from '@/components/navigation/BottomNavigation';
 import { useViewportHeight } from '@/lib/useViewportHeight';
+import { useJournalLock } from '@/lib/useJournalLock';
 import { storageService } from '@/lib/storageService';
-import { aiService, SentimentAnalysisResult, PatternAnalysisResult, TrendAnalysisResult } from '@/lib/aiService';
+import { aiService, needsEntryAnalysis, AIPromptPreview, SentimentAnalysisResult, PatternAnalysisResult, TrendAnalysisResult, EmotionAnalysisResult } from '@/lib/aiService';
+import { EMOTIONS, Emotion, MOOD_EMOJIS } from '@/lib/emotions';
 import { JournalEntry } from '@/lib/database';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { TrendingUp, Heart, Brain, BarChart3, Loader2 } from 'lucide-react';
+import { TrendingUp, Heart, Brain, BarChart3, Loader2, ShieldCheck, Smile, Sparkles, ChevronDown, ChevronRight } from 'lucide-react';
 
 interface AnalysisResult {
   sentiment: SentimentAnalysisResult;
   patterns: PatternAnalysisResult;
   trends: TrendAnalysisResult;
+  emotions: EmotionAnalysisResult;
 }
 
+const EMOTION_COLORS: Record<Emotion, string> = {
+  happy: 'bg-yellow-400',
+  sad: 'bg-blue-500',
+  excited: 'bg-pink-500',
+  calm: 'bg-teal-400',
+  anxious: 'bg-orange-500',
+  grateful: 'bg-green-500',
+  confused: 'bg-gray-400',
+  proud: 'bg-purple-500',
+  tired: 'bg-indigo-300',
+  energetic: 'bg-red-500',
+};
+
+// Weeks shown in the emotional mix
+const EMOTION_MIX_WEEKS = 4;
+
 export default function InsightsPage() {
   const router = useRouter();
   const [activeTab, setActiveTab] = useState('insights');
@@ -24,37 +43,64 @@ export default function InsightsPage() {
   const [isLoading, setIsLoading] = useState(true);
   const [analysisResults, setAnalysisResults] = useState<AnalysisResult | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [promptPreview, setPromptPreview] = useState<AIPromptPreview | null>(null);
+  const [refinePreview, setRefinePreview] = useState<AIPromptPreview | null>(null);
+  const [showPromptPreview, setShowPromptPreview] = useState(false);
+  const [isRefining, setIsRefining] = useState(false);
+  const [isScoring, setIsScoring] = useState(false);
+  const [expandedTheme, setExpandedTheme] = useState<string | null>(null);
+  const [showAllThemeEntries, setShowAllThemeEntries] = useState(false);
   const hasAnalyzedRef = useRef(false);
   const analysisInProgressRef = useRef(false);
   
   // Fix viewport height for mobile devices
   useViewportHeight();
 
-  useEffect(() => {
-    const loadData = async () => {
-      try {
-        await storageService.initialize();
-        const loadedEntries = await storageService.getAllJournalEntries();
-        setEntries(loadedEntries);
-        
-        // Only run analysis if we haven't already analyzed, have entries, and no analysis is in progress
-        if (!hasAnalyzedRef.current && !analysisInProgressRef.current && loadedEntries.length > 0) {
-          hasAnalyzedRef.current = true;
-          analysisInProgressRef.current = true;
-          await runAnalysis(loadedEntries);
-          analysisInProgressRef.current = false;
-        }
-      } catch (error) {
-        console.error('Failed to load journal entries:', error);
+  const loadData = async () => {
+    try {
+      await storageService.initialize();
+
+      // While locked the shared unlock screen covers the page; analysis runs once it unlocks
+      if (await storageService.isLocked()) return;
+
+      const loadedEntries = await storageService.getAllJournalEntries();
+      setEntries(loadedEntries);
+      
+      // Only run analysis if we haven't already analyzed, have entries, and no analysis is in progress
+      if (!hasAnalyzedRef.current && !analysisInProgressRef.current && loadedEntries.length > 0) {
+        hasAnalyzedRef.current = true;
+        analysisInProgressRef.current = true;
+        await runAnalysis(loadedEntries);
         analysisInProgressRef.current = false;
-      } finally {
-        setIsLoading(false);
       }
-    };
+    } catch (error) {
+      console.error('Failed to load journal entries:', error);
+      analysisInProgressRef.current = false;
+    } finally {
+      setIsLoading(false);
+    }
+  };
 
+  useEffect(() => {
     loadData();
   }, []); // eslint-disable-line react-hooks/exhaustive-deps
 
+  // Drop decrypted entries and their analysis when the journal locks
+  useJournalLock({
+    onLock: () => {
+      setEntries([]);
+      setAnalysisResults(null);
+      setPromptPreview(null);
+      setRefinePreview(null);
+      setShowPromptPreview(false);
+      setExpandedTheme(null);
+      hasAnalyzedRef.current = false;
+    },
+    onUnlock: () => {
+      loadData();
+    },
+  });
+
   const runAnalysis = async (entriesToAnalyze: JournalEntry[]) => {
     if (isAnalyzing) return; // Prevent multiple simultaneous analyses
     
@@ -62,34 +108,58 @@ export default function InsightsPage() {
     console.log('🔄 Starting sequential analysis...');
 
     try {
-      // Run sentiment analysis
-      console.log('📊 Running sentiment analysis...');
-      const sentimentResult = await aiService.analyzeEntries({
-        entries: entriesToAnalyze,
+      // Only new and edited entries are scored; show what sending them would share, built the
+      // same way as the request itself, and wait for the user before anything leaves the device
+      const preview = await aiService.previewAnalysisPrompt({
+        entries: entriesToAnalyze.filter(needsEntryAnalysis),
         analysisType: 'sentiment'
       });
-      console.log('✅ Sentiment analysis completed');
+      setPromptPreview(preview);
 
-      // Run pattern analysis
-      console.log('🔍 Running pattern analysis...');
-      const patternsResult = await aiService.analyzeEntries({
-        entries: entriesToAnalyze,
-        analysisType: 'patterns'
-      });
-      console.log('✅ Pattern analysis completed');
+      // With nothing to send, pending entries are scored on this device straight away; otherwise
+      // only themes, which never leave the device, are brought up to date
+      console.log('📊 Analyzing new and edited entries...');
+      const analyzedEntries = preview
+        ? await storageService.refreshEntryThemes()
+        : await storageService.refreshEntryAnalysis();
+      setEntries(analyzedEntries);
+      console.log('✅ Entry analysis completed');
 
       // Run trend analysis
       console.log('📈 Running trend analysis...');
       const trendsResult = await aiService.analyzeEntries({
-        entries: entriesToAnalyze,
+        entries: analyzedEntries,
         analysisType: 'trends'
       });
       console.log('✅ Trend analysis completed');
 
+      // Cluster entries into themes
+      console.log('🧩 Running theme analysis...');
+      const patternsResult = await aiService.analyzeEntries({
+        entries: analyzedEntries,
+        analysisType: 'patterns'
+      });
+      console.log('✅ Theme analysis completed');
+
+      // Emotions are classified on this device; refining them with AI is up to the user
+      console.log('🎭 Running emotion analysis...');
+      const emotionsResult = await aiService.analyzeEntries({
+        entries: analyzedEntries,
+        analysisType: 'emotions'
+      });
+      setRefinePreview(await aiService.previewAnalysisPrompt({
+        entries: analyzedEntries,
+        analysisType: 'emotions',
+        refineWithAI: true
+      }));
+      console.log('✅ Emotion analysis completed');
+
+      // Sentiment comes from the stored per-entry results
       setAnalysisResults({
-        sentiment: sentimentResult as SentimentAnalysisResult,
+        sentiment: aiService.summarizeSentiment(analyzedEntries),
         patterns: patternsResult as PatternAnalysisResult,
-        trends: trendsResult as TrendAnalysisResult
+        trends: trendsResult as TrendAnalysisResult,
+        emotions: emotionsResult as EmotionAnalysisResult
       });
 
       console.log('🎉 All analyses completed');
@@ -100,6 +170,49 @@ export default function InsightsPage() {
     }
   };
 
+  // Score the entries waiting for sentiment, sending them to the provider only if the user chose to
+  const scorePendingEntries = async (useProvider: boolean) => {
+    if (isScoring) return;
+
+    setIsScoring(true);
+    try {
+      console.log(useProvider ? '📊 Sending new and edited entries for analysis...' : '📊 Analyzing new and edited entries on this device...');
+      const analyzedEntries = await storageService.refreshEntryAnalysis(useProvider);
+      setEntries(analyzedEntries);
+      // Entries the AI didn't get to (rate limited or failed) stay pending, ready to send again
+      setPromptPreview(useProvider ? await aiService.previewAnalysisPrompt({
+        entries: analyzedEntries.filter(needsEntryAnalysis),
+        analysisType: 'sentiment'
+      }) : null);
+      setAnalysisResults(previous => previous && { ...previous, sentiment: aiService.summarizeSentiment(analyzedEntries) });
+      console.log('✅ Entry analysis completed');
+    } catch (error) {
+      console.error('Entry analysis failed:', error);
+    } finally {
+      setIsScoring(false);
+    }
+  };
+
+  const refineEmotions = async () => {
+    if (isRefining) return;
+
+    setIsRefining(true);
+    try {
+      console.log('🎭 Refining emotions with AI...');
+      const emotionsResult = await aiService.analyzeEntries({
+        entries,
+        analysisType: 'emotions',
+        refineWithAI: true
+      });
+      setAnalysisResults(previous => previous && { ...previous, emotions: emotionsResult as EmotionAnalysisResult });
+      console.log('✅ Emotion refinement completed');
+    } catch (error) {
+      console.error('Emotion refinement failed:', error);
+    } finally {
+      setIsRefining(false);
+    }
+  };
+
   const handleTabChange = (tabId: string) => {
     setActiveTab(tabId);
     
@@ -143,6 +256,40 @@ export default function InsightsPage() {
     }
   };
 
+  // The last few weeks, plus each emotion's share across them weighted by entry count
+  const recentWeeks = analysisResults?.emotions.data.weeklyMix.slice(-EMOTION_MIX_WEEKS) ?? [];
+  const topEmotions = EMOTIONS
+    .map(emotion => {
+      const weighted = recentWeeks.reduce((sum, week) => sum + week.mix[emotion] * week.entryCount, 0);
+      const count = recentWeeks.reduce((sum, week) => sum + week.entryCount, 0);
+      return { emotion, share: count > 0 ? weighted / count : 0 };
+    })
+    .filter(({ share }) => share > 0)
+    .sort((a, b) => b.share - a.share)
+    .slice(0, 3);
+
+  const formatWeek = (weekStart: string) => {
+    const [year, month, day] = weekStart.split('-').map(Number);
+    return new Date(year, month - 1, day).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+  };
+
+  const toggleTheme = (name: string) => {
+    setExpandedTheme(expandedTheme === name ? null : name);
+    setShowAllThemeEntries(false);
+  };
+
+  // Entries behind a theme, in the order the analysis ranked them
+  const getThemeEntries = (entryIds: string[]) =>
+    entryIds
+      .map(id => entries.find(entry => entry.id === id))
+      .filter((entry): entry is JournalEntry => entry !== undefined && typeof entry.content === 'string');
+
+  const countRedactions = (preview: AIPromptPreview) =>
+    Object.values(preview.redactions).reduce((sum, count) => sum + count, 0);
+
+  const formatRequestCount = (preview: AIPromptPreview) =>
+    preview.batches.length === 1 ? 'one request' : `${preview.batches.length} requests`;
+
   if (isLoading) {
     return (
       <div className="h-screen mobile-viewport-fix tablet-viewport-fix desktop-viewport-fix flex items-center justify-center bg-gray-50">
@@ -216,28 +363,148 @@ export default function InsightsPage() {
                         </Badge>
                       </div>
                     </div>
+                    {promptPreview && (
+                      <div className="space-y-2">
+                        <p className="text-sm text-gray-600">
+                          {promptPreview.sentEntryIds.length + promptPreview.privateEntryCount} new or edited entries
+                          aren&apos;t scored yet. See what sending them shares under AI Privacy.
+                        </p>
+                        <div className="flex flex-wrap gap-3">
+                          <button
+                            onClick={() => scorePendingEntries(true)}
+                            disabled={isScoring}
+                            className="flex items-center space-x-1 text-sm text-blue-600 hover:underline disabled:opacity-50"
+                          >
+                            {isScoring ? <Loader2 className="w-4 h-4 animate-spin" /> : <Sparkles className="w-4 h-4" />}
+                            <span>Send to {promptPreview.provider}</span>
+                          </button>
+                          <button
+                            onClick={() => scorePendingEntries(false)}
+                            disabled={isScoring}
+                            className="text-sm text-gray-600 hover:underline disabled:opacity-50"
+                          >
+                            Score on this device
+                          </button>
+                        </div>
+                      </div>
+                    )}
                   </div>
                 </CardContent>
               </Card>
             )}
 
-            {/* Pattern Analysis */}
+            {/* Emotional Mix */}
+            {analysisResults?.emotions && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center space-x-2">
+                    <Smile className="w-5 h-5 text-yellow-500" />
+                    <span>Emotional Mix</span>
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="space-y-4">
+                    {topEmotions.length > 0 ? (
+                      <div className="flex flex-wrap gap-2">
+                        {topEmotions.map(({ emotion, share }) => (
+                          <Badge key={emotion} variant="secondary" className="capitalize">
+                            {MOOD_EMOJIS[emotion]} {emotion} {Math.round(share * 100)}%
+                          </Badge>
+                        ))}
+                      </div>
+                    ) : (
+                      <p className="text-sm text-gray-600">No clear emotions in your recent entries yet.</p>
+                    )}
+                    <div className="space-y-2">
+                      {recentWeeks.map(week => (
+                        <div key={week.weekStart} className="flex items-center space-x-3">
+                          <span className="text-xs text-gray-500 w-16 shrink-0">{formatWeek(week.weekStart)}</span>
+                          <div className="flex-1 flex h-3 rounded-full overflow-hidden bg-gray-100">
+                            {EMOTIONS.filter(emotion => week.mix[emotion] > 0).map(emotion => (
+                              <div
+                                key={emotion}
+                                className={EMOTION_COLORS[emotion]}
+                                style={{ width: `${week.mix[emotion] * 100}%` }}
+                                title={`${emotion} ${Math.round(week.mix[emotion] * 100)}%`}
+                              />
+                            ))}
+                          </div>
+                          <span className="text-xs text-gray-500 w-6 text-right">{week.entryCount}</span>
+                        </div>
+                      ))}
+                    </div>
+                    {refinePreview && (
+                      <button
+                        onClick={refineEmotions}
+                        disabled={isRefining}
+                        className="flex items-center space-x-1 text-sm text-blue-600 hover:underline disabled:opacity-50"
+                      >
+                        {isRefining ? <Loader2 className="w-4 h-4 animate-spin" /> : <Sparkles className="w-4 h-4" />}
+                        <span>Refine with AI</span>
+                      </button>
+                    )}
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+
+            {/* Themes */}
             {analysisResults?.patterns && (
               <Card>
                 <CardHeader>
                   <CardTitle className="flex items-center space-x-2">
                     <Brain className="w-5 h-5 text-purple-500" />
-                    <span>Pattern Analysis</span>
+                    <span>Themes</span>
                   </CardTitle>
                 </CardHeader>
                 <CardContent>
                   <div className="space-y-3">
-                    {analysisResults.patterns.data.patterns?.slice(0, 5).map((pattern, index: number) => (
-                      <div key={index} className="flex items-center justify-between">
-                        <span className="text-sm text-gray-700">{pattern.name}</span>
-                        <Badge variant="secondary">{pattern.frequency}</Badge>
-                      </div>
-                    ))}
+                    {analysisResults.patterns.data.patterns.length === 0 && (
+                      <p className="text-sm text-gray-600">Themes appear once several entries share a topic.</p>
+                    )}
+                    {analysisResults.patterns.data.patterns.map(pattern => {
+                      const isExpanded = expandedTheme === pattern.name;
+                      const themeEntries = getThemeEntries(
+                        isExpanded && showAllThemeEntries ? pattern.entries : pattern.examples
+                      );
+                      return (
+                        <div key={pattern.name} className="space-y-2">
+                          <button
+                            onClick={() => toggleTheme(pattern.name)}
+                            className="w-full flex items-center justify-between text-left"
+                          >
+                            <span className="flex items-center space-x-1 text-sm font-medium text-gray-700 capitalize">
+                              {isExpanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                              <span>{pattern.name}</span>
+                            </span>
+                            <Badge variant="secondary">{pattern.frequency}</Badge>
+                          </button>
+                          {isExpanded && (
+                            <div className="pl-5 space-y-2">
+                              <div className="flex flex-wrap gap-1">
+                                {pattern.keywords.map(keyword => (
+                                  <Badge key={keyword} variant="outline" className="text-xs">{keyword}</Badge>
+                                ))}
+                              </div>
+                              {themeEntries.map(entry => (
+                                <div key={entry.id} className="text-sm text-gray-600 border-l-2 border-purple-200 pl-3">
+                                  <span className="block text-xs text-gray-400">{entry.timestamp.toLocaleDateString()}</span>
+                                  <span className="line-clamp-2">{entry.content as string}</span>
+                                </div>
+                              ))}
+                              {pattern.entries.length > pattern.examples.length && (
+                                <button
+                                  onClick={() => setShowAllThemeEntries(!showAllThemeEntries)}
+                                  className="text-sm text-blue-600 hover:underline"
+                                >
+                                  {showAllThemeEntries ? 'Show examples only' : `Show all ${pattern.entries.length} entries`}
+                                </button>
+                              )}
+                            </div>
+                          )}
+                        </div>
+                      );
+                    })}
                   </div>
                 </CardContent>
               </Card>
@@ -289,6 +556,56 @@ export default function InsightsPage() {
               </Card>
             )}
 
+            {/* What is sent to AI */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center space-x-2">
+                  <ShieldCheck className="w-5 h-5 text-green-500" />
+                  <span>AI Privacy</span>
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {promptPreview || refinePreview ? (
+                  <>
+                    {promptPreview && (
+                      <p className="text-sm text-gray-600">
+                        Nothing is sent until you choose to. Sending scores {promptPreview.sentEntryIds.length} new or edited entries
+                        with {promptPreview.provider} ({promptPreview.model}) in {formatRequestCount(promptPreview)}, with {countRedactions(promptPreview)} names,
+                        contact details and numbers redacted; {promptPreview.privateEntryCount} private entries stay on this device.
+                      </p>
+                    )}
+                    {refinePreview && (
+                      <p className="text-sm text-gray-600">
+                        Emotions are classified on this device. Refine with AI sends {refinePreview.sentEntryIds.length} entries
+                        to {refinePreview.provider} ({refinePreview.model}) in {formatRequestCount(refinePreview)}, with {countRedactions(refinePreview)} names, contact
+                        details and numbers redacted; {refinePreview.privateEntryCount} private entries stay on this device.
+                      </p>
+                    )}
+                    <button
+                      onClick={() => setShowPromptPreview(!showPromptPreview)}
+                      className="text-sm text-blue-600 hover:underline"
+                    >
+                      {showPromptPreview ? 'Hide' : 'Show'} exactly what is sent
+                    </button>
+                    {showPromptPreview && [promptPreview, refinePreview].map(preview => preview?.batches.map((batch, index) => (
+                      <pre
+                        key={`${preview.analysisType}-${index}`}
+                        className="text-xs bg-gray-50 border border-gray-200 rounded p-3 whitespace-pre-wrap max-h-80 overflow-y-auto"
+                      >
+                        {`Request ${index + 1} of ${preview.batches.length}\n\n`}
+                        {batch.messages.map(message => `[${message.role}]\n${message.content}`).join('\n\n')}
+                      </pre>
+                    )))}
+                  </>
+                ) : (
+                  <p className="text-sm text-gray-600">
+                    Nothing from your journal is sent to an AI provider; these insights use analysis already stored
+                    with your entries or computed on this device.
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+
             {/* Summary */}
             <Card>
               <CardHeader>
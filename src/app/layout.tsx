@@ -1,6 +1,8 @@
 import type { Metadata } from "next";
 import { Inter } from "next/font/google";
 import "./globals.css";
+import MigrationBanner from "@/components/storage/MigrationBanner";
+import LockGate from "@/components/storage/LockGate";
 
 const inter = Inter({ subsets: ["latin"] });
 
@@ -16,7 +18,11 @@ export default function RootLayout({
 }>) {
   return (
     <html lang="en" className="h-full">
-      <body className={`${inter.className} h-full overflow-hidden`}>{children}</body>
+      <body className={`${inter.className} h-full overflow-hidden`}>
+        <MigrationBanner />
+        {children}
+        <LockGate />
+      </body>
     </html>
   );
 }
@@ -6,6 +6,7 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
 import BottomNavigation from '@/components/navigation/BottomNavigation';
+import RecoveryKeyNotice from '@/components/storage/RecoveryKeyNotice';
 import { 
   Shield, 
   Download, 
@@ -16,9 +17,32 @@ import {
   Database,
   Lock,
   Unlock,
+  Bot,
+  KeyRound,
+  RefreshCw,
+  Timer,
+  ShieldAlert,
   Settings as SettingsIcon
 } from 'lucide-react';
-import { storageService, StorageSettings, StorageStats } from '@/lib/storageService';
+import { storageService, DuressAction, StorageSettings, StorageStats } from '@/lib/storageService';
+import { aiService } from '@/lib/aiService';
+import { WrongPasswordError } from '@/lib/encryption';
+import { BackupError, isEncryptedBackup, parseBackupFile } from '@/lib/backup';
+import { AutoLockSettings, DEFAULT_AUTO_LOCK_SETTINGS, autoLockManager } from '@/lib/autoLock';
+import { AIProviderConfig, AIProviderType, AI_PROVIDER_DEFAULTS, DEFAULT_AI_PROVIDER_CONFIG } from '@/lib/aiProviders';
+
+const AUTO_LOCK_IDLE_OPTIONS = [
+  { minutes: 1, label: '1 min' },
+  { minutes: 5, label: '5 min' },
+  { minutes: 15, label: '15 min' },
+  { minutes: 0, label: 'Never' },
+];
+
+const AI_PROVIDER_OPTIONS: Array<{ type: AIProviderType; label: string; description: string }> = [
+  { type: 'openai', label: 'OpenAI', description: 'OpenAI or any OpenAI-compatible server (llama.cpp, vLLM)' },
+  { type: 'ollama', label: 'Ollama', description: 'A locally hosted Ollama server' },
+  { type: 'mock', label: 'Mock', description: 'Deterministic offline responses for development' },
+];
 import { useViewportHeight } from '@/lib/useViewportHeight';
 
 export default function SettingsPage() {
@@ -26,11 +50,17 @@ export default function SettingsPage() {
   const [activeTab, setActiveTab] = useState('settings');
   const [settings, setSettings] = useState<StorageSettings>({
     encryptionEnabled: false,
+    encryptMetadata: false,
     autoSave: true,
     backupEnabled: false,
     theme: 'auto',
     notifications: true,
+    aiProvider: DEFAULT_AI_PROVIDER_CONFIG,
+    autoLock: DEFAULT_AUTO_LOCK_SETTINGS,
   });
+  const [aiProviderDraft, setAIProviderDraft] = useState<AIProviderConfig>(DEFAULT_AI_PROVIDER_CONFIG);
+  const [aiProviderError, setAIProviderError] = useState<string | null>(null);
+  const [aiProviderSaved, setAIProviderSaved] = useState(false);
   const [stats, setStats] = useState<StorageStats>({
     totalEntries: 0,
     totalSessions: 0,
@@ -43,6 +73,17 @@ export default function SettingsPage() {
   const [password, setPassword] = useState('');
   const [confirmPassword, setConfirmPassword] = useState('');
   const [isEncrypting, setIsEncrypting] = useState(false);
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmNewPassword, setConfirmNewPassword] = useState('');
+  const [rotationProgress, setRotationProgress] = useState<{ completed: number; total: number } | null>(null);
+  const [recoveryKey, setRecoveryKey] = useState<string | null>(null);
+  const [hasRecoveryKey, setHasRecoveryKey] = useState(false);
+  const [backupPassphrase, setBackupPassphrase] = useState('');
+  const [confirmBackupPassphrase, setConfirmBackupPassphrase] = useState('');
+  const [isBackingUp, setIsBackingUp] = useState(false);
+  const [duressAction, setDuressAction] = useState<DuressAction | null>(null);
+  const [duressDraftAction, setDuressDraftAction] = useState<DuressAction>('wipe');
+  const [duressPassword, setDuressPassword] = useState('');
 
   // Fix viewport height for mobile devices
   useViewportHeight();
@@ -56,7 +97,10 @@ export default function SettingsPage() {
           storageService.getStorageStats(),
         ]);
         setSettings(loadedSettings);
+        setAIProviderDraft(loadedSettings.aiProvider);
         setStats(loadedStats);
+        setHasRecoveryKey(await storageService.hasRecoveryKey());
+        setDuressAction(await storageService.getDuressAction());
       } catch (error) {
         console.error('Failed to load settings:', error);
       } finally {
@@ -76,6 +120,46 @@ export default function SettingsPage() {
     }
   };
 
+  const handleAIProviderTypeChange = (type: AIProviderType) => {
+    // Keep the saved URL and model when switching back to the saved provider
+    setAIProviderDraft(type === settings.aiProvider.type ? settings.aiProvider : AI_PROVIDER_DEFAULTS[type]);
+    setAIProviderError(null);
+    setAIProviderSaved(false);
+  };
+
+  const handleSaveAIProvider = async () => {
+    const config: AIProviderConfig = {
+      ...aiProviderDraft,
+      baseUrl: aiProviderDraft.baseUrl.trim(),
+      model: aiProviderDraft.model.trim(),
+    };
+
+    if (config.type !== 'mock') {
+      try {
+        new URL(config.baseUrl);
+      } catch {
+        setAIProviderError('Base URL must be a valid URL, e.g. http://localhost:11434');
+        return;
+      }
+      if (!config.model) {
+        setAIProviderError('Model is required');
+        return;
+      }
+    }
+
+    await handleSettingChange('aiProvider', config);
+    aiService.configureProvider(config);
+    setAIProviderDraft(config);
+    setAIProviderError(null);
+    setAIProviderSaved(true);
+  };
+
+  const handleAutoLockChange = async (changes: Partial<AutoLockSettings>) => {
+    const autoLock = { ...settings.autoLock, ...changes };
+    await handleSettingChange('autoLock', autoLock);
+    autoLockManager.configure(autoLock);
+  };
+
   const handleCleanupDuplicates = async () => {
     setIsCleaningUp(true);
     setCleanupResult(null);
@@ -107,7 +191,8 @@ export default function SettingsPage() {
 
     setIsEncrypting(true);
     try {
-      await storageService.enableEncryption(password);
+      setRecoveryKey(await storageService.enableEncryption(password));
+      setHasRecoveryKey(true);
       setSettings(prev => ({ ...prev, encryptionEnabled: true }));
       setPassword('');
       setConfirmPassword('');
@@ -129,30 +214,188 @@ export default function SettingsPage() {
     setIsEncrypting(true);
     try {
       await storageService.disableEncryption(password);
-      setSettings(prev => ({ ...prev, encryptionEnabled: false }));
+      setRecoveryKey(null);
+      setHasRecoveryKey(false);
+      setDuressAction(null);
+      setSettings(prev => ({ ...prev, encryptionEnabled: false, encryptMetadata: false }));
       setPassword('');
       setConfirmPassword('');
       alert('Encryption disabled successfully!');
     } catch (error) {
-      console.error('Failed to disable encryption:', error);
-      alert('Failed to disable encryption. Please check your password.');
+      if (error instanceof WrongPasswordError) {
+        alert('Incorrect password. Encryption is still enabled.');
+      } else {
+        console.error('Failed to disable encryption:', error);
+        alert('Failed to disable encryption. Please try again.');
+      }
+    } finally {
+      setIsEncrypting(false);
+    }
+  };
+
+  const handleToggleMetadataEncryption = async () => {
+    const enabled = !settings.encryptMetadata;
+
+    setIsEncrypting(true);
+    try {
+      await storageService.setMetadataEncryption(enabled);
+      setSettings(prev => ({ ...prev, encryptMetadata: enabled }));
+    } catch (error) {
+      console.error('Failed to update metadata encryption:', error);
+      alert('Failed to update metadata encryption. Your entries are unchanged.');
+    } finally {
+      setIsEncrypting(false);
+    }
+  };
+
+  const handleChangePassword = async () => {
+    if (!newPassword || newPassword !== confirmNewPassword) {
+      alert('New passwords do not match');
+      return;
+    }
+
+    if (newPassword.length < 8) {
+      alert('Password must be at least 8 characters long');
+      return;
+    }
+
+    setIsEncrypting(true);
+    try {
+      await storageService.changePassword(password, newPassword);
+      setPassword('');
+      setNewPassword('');
+      setConfirmNewPassword('');
+      alert('Password changed successfully!');
+    } catch (error) {
+      if (error instanceof WrongPasswordError) {
+        alert('Current password is incorrect.');
+      } else {
+        console.error('Failed to change password:', error);
+        alert('Failed to change password. Please try again.');
+      }
+    } finally {
+      setIsEncrypting(false);
+    }
+  };
+
+  const handleRotateDataKey = async () => {
+    if (!confirm('Re-encrypt all entries with a new key? This may take a while for large journals.')) {
+      return;
+    }
+
+    setIsEncrypting(true);
+    try {
+      setRecoveryKey(await storageService.rotateDataKey(password, (completed, total) => setRotationProgress({ completed, total })));
+      setHasRecoveryKey(true);
+      setPassword('');
+      alert('Encryption key rotated successfully! Save your new recovery key; the old one no longer works.');
+    } catch (error) {
+      if (error instanceof WrongPasswordError) {
+        alert('Current password is incorrect.');
+      } else {
+        console.error('Failed to rotate encryption key:', error);
+        alert('Failed to rotate encryption key. Your entries are unchanged.');
+      }
     } finally {
+      setRotationProgress(null);
       setIsEncrypting(false);
     }
   };
 
-  const handleExportData = async () => {
+  const handleCreateRecoveryKey = async () => {
+    if (hasRecoveryKey && !confirm('Generate a new recovery key? Your current recovery key will stop working.')) {
+      return;
+    }
+
+    setIsEncrypting(true);
+    try {
+      setRecoveryKey(await storageService.createRecoveryKey(password));
+      setHasRecoveryKey(true);
+      setPassword('');
+    } catch (error) {
+      if (error instanceof WrongPasswordError) {
+        alert('Current password is incorrect.');
+      } else {
+        console.error('Failed to create recovery key:', error);
+        alert('Failed to create recovery key. Please try again.');
+      }
+    } finally {
+      setIsEncrypting(false);
+    }
+  };
+
+  const handleSetDuressPassword = async () => {
+    if (duressPassword.length < 8) {
+      alert('Duress password must be at least 8 characters long');
+      return;
+    }
+
+    setIsEncrypting(true);
+    try {
+      await storageService.setDuressPassword(duressPassword, duressDraftAction);
+      setDuressAction(duressDraftAction);
+      setDuressPassword('');
+    } catch (error) {
+      console.error('Failed to set duress password:', error);
+      alert(error instanceof Error ? error.message : 'Failed to set duress password. Please try again.');
+    } finally {
+      setIsEncrypting(false);
+    }
+  };
+
+  const handleRemoveDuressPassword = async () => {
+    try {
+      await storageService.removeDuressPassword();
+      setDuressAction(null);
+    } catch (error) {
+      console.error('Failed to remove duress password:', error);
+      alert('Failed to remove duress password. Please try again.');
+    }
+  };
+
+  const downloadJson = (data: unknown, fileName: string) => {
+    const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = fileName;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleExportEncryptedBackup = async () => {
+    if (backupPassphrase.length < 8) {
+      alert('Backup passphrase must be at least 8 characters long');
+      return;
+    }
+    if (backupPassphrase !== confirmBackupPassphrase) {
+      alert('Backup passphrases do not match');
+      return;
+    }
+
+    setIsBackingUp(true);
+    try {
+      const backup = await storageService.exportEncryptedBackup(backupPassphrase);
+      downloadJson(backup, `vibe-journal-backup-${new Date().toISOString().split('T')[0]}.encrypted.json`);
+      setConfirmBackupPassphrase('');
+    } catch (error) {
+      console.error('Failed to export data:', error);
+      alert('Failed to export data. Please try again.');
+    } finally {
+      setIsBackingUp(false);
+    }
+  };
+
+  const handleExportPlainData = async () => {
+    if (!confirm('This file will contain your whole journal in readable form, even if encryption is enabled. Anyone who gets the file can read it. Export anyway?')) {
+      return;
+    }
+
     try {
       const data = await storageService.exportData();
-      const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = `vibe-journal-backup-${new Date().toISOString().split('T')[0]}.json`;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
+      downloadJson(data, `vibe-journal-export-${new Date().toISOString().split('T')[0]}.json`);
     } catch (error) {
       console.error('Failed to export data:', error);
       alert('Failed to export data. Please try again.');
@@ -161,12 +404,22 @@ export default function SettingsPage() {
 
   const handleImportData = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
+    // Let the same file be chosen again, e.g. after fixing the passphrase
+    event.target.value = '';
     if (!file) return;
 
+    setIsBackingUp(true);
     try {
-      const text = await file.text();
-      const data = JSON.parse(text);
-      await storageService.importData(data);
+      const data = parseBackupFile(await file.text());
+      if (isEncryptedBackup(data)) {
+        if (!backupPassphrase) {
+          alert('This backup is encrypted. Enter its passphrase above, then choose the file again.');
+          return;
+        }
+        await storageService.importEncryptedBackup(data, backupPassphrase);
+      } else {
+        await storageService.importData(data);
+      }
       alert('Data imported successfully!');
       // Reload settings and stats
       const [loadedSettings, loadedStats] = await Promise.all([
@@ -174,10 +427,20 @@ export default function SettingsPage() {
         storageService.getStorageStats(),
       ]);
       setSettings(loadedSettings);
+      setAIProviderDraft(loadedSettings.aiProvider);
+      aiService.configureProvider(loadedSettings.aiProvider);
       setStats(loadedStats);
     } catch (error) {
-      console.error('Failed to import data:', error);
-      alert('Failed to import data. Please check the file format.');
+      if (error instanceof WrongPasswordError) {
+        alert('Incorrect backup passphrase.');
+      } else if (error instanceof BackupError) {
+        alert(`Backup rejected: ${error.message}. Nothing was imported.`);
+      } else {
+        console.error('Failed to import data:', error);
+        alert('Failed to import data. Please check the file format.');
+      }
+    } finally {
+      setIsBackingUp(false);
     }
   };
 
@@ -200,6 +463,22 @@ export default function SettingsPage() {
     }
   };
 
+  const handlePanicWipe = async () => {
+    if (!confirm('Erase this journal from this device right now? Entries, keys and settings are destroyed and cannot be recovered.')) {
+      return;
+    }
+
+    try {
+      await storageService.panicWipe();
+    } catch (error) {
+      console.error('Failed to wipe data:', error);
+      alert('Could not erase everything. Please try again.');
+      return;
+    }
+    // Start over from a blank page so no decrypted state stays on screen
+    window.location.replace('/');
+  };
+
   const formatBytes = (bytes: number): string => {
     if (bytes === 0) return '0 Bytes';
     const k = 1024;
@@ -333,6 +612,12 @@ export default function SettingsPage() {
               </Badge>
             </div>
 
+            {recoveryKey && (
+              <div className="mb-4">
+                <RecoveryKeyNotice recoveryKey={recoveryKey} onDone={() => setRecoveryKey(null)} />
+              </div>
+            )}
+
             {!settings.encryptionEnabled ? (
               <div className="space-y-4">
                 <div>
@@ -398,17 +683,214 @@ export default function SettingsPage() {
                   <Unlock className="w-4 h-4 mr-2" />
                   {isEncrypting ? "Disabling..." : "Disable Encryption"}
                 </Button>
+
+                <div className="pt-4 border-t border-gray-200 flex items-center justify-between">
+                  <div>
+                    <div className="font-medium text-gray-900">Encrypt Metadata</div>
+                    <div className="text-sm text-gray-500">Also encrypt tags, moods, emojis, dates and analysis results, not just the text</div>
+                  </div>
+                  <Button
+                    variant={settings.encryptMetadata ? "default" : "outline"}
+                    size="sm"
+                    onClick={handleToggleMetadataEncryption}
+                    disabled={isEncrypting}
+                  >
+                    {settings.encryptMetadata ? "On" : "Off"}
+                  </Button>
+                </div>
+
+                <div className="pt-4 border-t border-gray-200 space-y-4">
+                  <div>
+                    <div className="font-medium text-gray-900 mb-1">Change Password</div>
+                    <div className="text-sm text-gray-500">Only the key protecting your journal is updated; entries are not rewritten.</div>
+                  </div>
+                  <Input
+                    type="password"
+                    value={newPassword}
+                    onChange={(e) => setNewPassword(e.target.value)}
+                    placeholder="New password (min 8 characters)"
+                  />
+                  <Input
+                    type="password"
+                    value={confirmNewPassword}
+                    onChange={(e) => setConfirmNewPassword(e.target.value)}
+                    placeholder="Confirm new password"
+                  />
+                  <Button
+                    onClick={handleChangePassword}
+                    disabled={isEncrypting || !password || !newPassword || !confirmNewPassword}
+                    variant="outline"
+                    className="w-full"
+                  >
+                    <KeyRound className="w-4 h-4 mr-2" />
+                    Change Password
+                  </Button>
+                </div>
+
+                <div className="pt-4 border-t border-gray-200 space-y-4">
+                  <div>
+                    <div className="font-medium text-gray-900 mb-1">Rotate Encryption Key</div>
+                    <div className="text-sm text-gray-500">Re-encrypt every entry and conversation with a brand new key.</div>
+                  </div>
+                  <Button
+                    onClick={handleRotateDataKey}
+                    disabled={isEncrypting || !password}
+                    variant="outline"
+                    className="w-full"
+                  >
+                    <RefreshCw className={`w-4 h-4 mr-2 ${rotationProgress ? 'animate-spin' : ''}`} />
+                    {rotationProgress
+                      ? `Re-encrypting ${rotationProgress.completed} of ${rotationProgress.total}...`
+                      : "Rotate Key"}
+                  </Button>
+                </div>
+
+                <div className="pt-4 border-t border-gray-200 space-y-4">
+                  <div>
+                    <div className="font-medium text-gray-900 mb-1">Recovery Key</div>
+                    <div className="text-sm text-gray-500">
+                      {hasRecoveryKey
+                        ? 'A recovery key is set. Generating a new one replaces it.'
+                        : 'No recovery key yet. Without one, a forgotten password means your entries are lost.'}
+                    </div>
+                  </div>
+                  <Button
+                    onClick={handleCreateRecoveryKey}
+                    disabled={isEncrypting || !password}
+                    variant="outline"
+                    className="w-full"
+                  >
+                    <KeyRound className="w-4 h-4 mr-2" />
+                    {hasRecoveryKey ? "Generate New Recovery Key" : "Create Recovery Key"}
+                  </Button>
+                </div>
+
+                <div className="pt-4 border-t border-gray-200 space-y-4">
+                  <div>
+                    <div className="font-medium text-gray-900 mb-1">Duress Password</div>
+                    <div className="text-sm text-gray-500">
+                      {duressAction
+                        ? `Set. Entering it at the unlock screen ${duressAction === 'decoy' ? 'erases your journal and opens an empty one' : 'erases your journal'}.`
+                        : 'A second password that silently erases your journal when entered at the unlock screen.'}
+                    </div>
+                  </div>
+                  <div className="grid grid-cols-2 gap-2">
+                    <Button
+                      variant={duressDraftAction === 'wipe' ? "default" : "outline"}
+                      size="sm"
+                      onClick={() => setDuressDraftAction('wipe')}
+                    >
+                      Erase
+                    </Button>
+                    <Button
+                      variant={duressDraftAction === 'decoy' ? "default" : "outline"}
+                      size="sm"
+                      onClick={() => setDuressDraftAction('decoy')}
+                    >
+                      Erase, show empty journal
+                    </Button>
+                  </div>
+                  <Input
+                    type="password"
+                    value={duressPassword}
+                    onChange={(e) => setDuressPassword(e.target.value)}
+                    placeholder="Duress password (min 8 characters)"
+                  />
+                  <Button
+                    onClick={handleSetDuressPassword}
+                    disabled={isEncrypting || !duressPassword}
+                    variant="outline"
+                    className="w-full"
+                  >
+                    <ShieldAlert className="w-4 h-4 mr-2" />
+                    {duressAction ? "Replace Duress Password" : "Set Duress Password"}
+                  </Button>
+                  {duressAction && (
+                    <Button onClick={handleRemoveDuressPassword} variant="ghost" className="w-full">
+                      Remove Duress Password
+                    </Button>
+                  )}
+                </div>
               </div>
             )}
           </div>
 
+          {/* Auto-Lock */}
+          {settings.encryptionEnabled && (
+            <div className="bg-white rounded-lg p-4 border border-gray-200">
+              <div className="flex items-center space-x-2 mb-4">
+                <Timer className="w-5 h-5 text-purple-500" />
+                <h2 className="text-lg font-medium text-gray-900">Auto-Lock</h2>
+              </div>
+              <div className="space-y-4">
+                <div>
+                  <div className="font-medium text-gray-900">Lock after inactivity</div>
+                  <div className="text-sm text-gray-500 mb-2">Forget your password and hide entries when the app is idle</div>
+                  <div className="grid grid-cols-4 gap-2">
+                    {AUTO_LOCK_IDLE_OPTIONS.map(option => (
+                      <Button
+                        key={option.minutes}
+                        variant={settings.autoLock.idleMinutes === option.minutes ? "default" : "outline"}
+                        size="sm"
+                        onClick={() => handleAutoLockChange({ idleMinutes: option.minutes })}
+                      >
+                        {option.label}
+                      </Button>
+                    ))}
+                  </div>
+                </div>
+                <div className="flex items-center justify-between">
+                  <div>
+                    <div className="font-medium text-gray-900">Lock when hidden</div>
+                    <div className="text-sm text-gray-500">Lock as soon as you switch tabs or apps</div>
+                  </div>
+                  <Button
+                    variant={settings.autoLock.lockOnHide ? "default" : "outline"}
+                    size="sm"
+                    onClick={() => handleAutoLockChange({ lockOnHide: !settings.autoLock.lockOnHide })}
+                  >
+                    {settings.autoLock.lockOnHide ? "On" : "Off"}
+                  </Button>
+                </div>
+                <Button onClick={() => autoLockManager.lockNow()} variant="outline" className="w-full">
+                  <Lock className="w-4 h-4 mr-2" />
+                  Lock Now
+                </Button>
+              </div>
+            </div>
+          )}
+
           {/* Data Management */}
           <div className="bg-white rounded-lg p-4 border border-gray-200">
             <h2 className="text-lg font-medium text-gray-900 mb-4">Data Management</h2>
             <div className="space-y-3">
-              <Button onClick={handleExportData} variant="outline" className="w-full">
+              <div className="text-sm text-gray-500">
+                Backups are encrypted with their own passphrase, which is also needed to import them.
+              </div>
+              <Input
+                type="password"
+                value={backupPassphrase}
+                onChange={(e) => setBackupPassphrase(e.target.value)}
+                placeholder="Backup passphrase (min 8 characters)"
+              />
+              <Input
+                type="password"
+                value={confirmBackupPassphrase}
+                onChange={(e) => setConfirmBackupPassphrase(e.target.value)}
+                placeholder="Confirm passphrase to export"
+              />
+              <Button
+                onClick={handleExportEncryptedBackup}
+                disabled={isBackingUp || !backupPassphrase || !confirmBackupPassphrase}
+                variant="outline"
+                className="w-full"
+              >
+                <Download className="w-4 h-4 mr-2" />
+                {isBackingUp ? "Working..." : "Export Encrypted Backup"}
+              </Button>
+              <Button onClick={handleExportPlainData} variant="ghost" className="w-full">
                 <Download className="w-4 h-4 mr-2" />
-                Export Data
+                Export Readable JSON
               </Button>
               <div>
                 <input
@@ -420,6 +902,7 @@ export default function SettingsPage() {
                 />
                 <Button
                   onClick={() => document.getElementById('import-file')?.click()}
+                  disabled={isBackingUp}
                   variant="outline"
                   className="w-full"
                 >
@@ -435,6 +918,82 @@ export default function SettingsPage() {
                 <Trash2 className="w-4 h-4 mr-2" />
                 Clear All Data
               </Button>
+              <Button
+                onClick={handlePanicWipe}
+                variant="destructive"
+                className="w-full"
+              >
+                <ShieldAlert className="w-4 h-4 mr-2" />
+                Panic Wipe
+              </Button>
+              <div className="text-sm text-gray-500">
+                Panic wipe also erases your password, keys and settings. It is available from the unlock screen too.
+              </div>
+            </div>
+          </div>
+
+          {/* AI Provider */}
+          <div className="bg-white rounded-lg p-4 border border-gray-200">
+            <div className="flex items-center space-x-2 mb-4">
+              <Bot className="w-5 h-5 text-blue-500" />
+              <h2 className="text-lg font-medium text-gray-900">AI Provider</h2>
+              <Badge variant="secondary">{settings.aiProvider.type}</Badge>
+            </div>
+            <div className="space-y-4">
+              <div className="grid grid-cols-3 gap-2">
+                {AI_PROVIDER_OPTIONS.map(option => (
+                  <Button
+                    key={option.type}
+                    variant={aiProviderDraft.type === option.type ? "default" : "outline"}
+                    size="sm"
+                    onClick={() => handleAIProviderTypeChange(option.type)}
+                  >
+                    {option.label}
+                  </Button>
+                ))}
+              </div>
+              <div className="text-sm text-gray-500">
+                {AI_PROVIDER_OPTIONS.find(option => option.type === aiProviderDraft.type)?.description}
+              </div>
+              {aiProviderDraft.type !== 'mock' && (
+                <>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Base URL
+                    </label>
+                    <Input
+                      value={aiProviderDraft.baseUrl}
+                      onChange={(e) => {
+                        setAIProviderDraft(prev => ({ ...prev, baseUrl: e.target.value }));
+                        setAIProviderSaved(false);
+                      }}
+                      placeholder={AI_PROVIDER_DEFAULTS[aiProviderDraft.type].baseUrl}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Model
+                    </label>
+                    <Input
+                      value={aiProviderDraft.model}
+                      onChange={(e) => {
+                        setAIProviderDraft(prev => ({ ...prev, model: e.target.value }));
+                        setAIProviderSaved(false);
+                      }}
+                      placeholder={AI_PROVIDER_DEFAULTS[aiProviderDraft.type].model}
+                    />
+                  </div>
+                </>
+              )}
+              {aiProviderError && (
+                <div className="text-sm text-red-600">{aiProviderError}</div>
+              )}
+              {aiProviderSaved && (
+                <div className="text-sm text-green-600">AI provider saved</div>
+              )}
+              <Button onClick={handleSaveAIProvider} variant="outline" className="w-full">
+                Save AI Provider
+              </Button>
             </div>
           </div>
 
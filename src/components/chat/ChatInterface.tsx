@@ -1,36 +1,43 @@
 'use client';
 
 import React, { useState, useRef, useEffect, forwardRef, useImperativeHandle } from 'react';
-import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Avatar, AvatarFallback } from '@/components/ui/avatar';
 import { Heart } from 'lucide-react';
-
-interface Message {
-  id: string;
-  type: 'ai' | 'user';
-  content: string;
-  timestamp: Date;
-  emojis?: string[];
-}
+import MessageBubble, { Message } from './MessageBubble';
+import { aiService } from '@/lib/aiService';
 
 interface ChatInterfaceProps {
-  onSaveEntry?: (entry: { text: string; emojis: string[]; timestamp: Date }) => void;
+  // Resolves to the id of the saved journal entry so the message can reference it
+  onSaveEntry?: (entry: { text: string; emojis: string[]; timestamp: Date }) => Promise<string | null> | void;
+  onPersistMessage?: (message: Message, sequence: number) => void;
+  subtitle?: string;
+  headerAction?: React.ReactNode;
 }
 
 export interface ChatInterfaceRef {
   addMessage: (content: string) => void;
+  reset: () => void;
+  restore: (transcript: Array<{ message: Message; sequence: number }>) => void;
 }
 
-const ChatInterface = forwardRef<ChatInterfaceRef, ChatInterfaceProps>(({ onSaveEntry }, ref) => {
-  const [messages, setMessages] = useState<Message[]>([
-    {
-      id: '1',
-      type: 'ai',
-      content: "Hi there! I'm your journal companion. How are you feeling today?",
-      timestamp: new Date(),
-    }
-  ]);
+const createGreeting = (): Message => ({
+  id: crypto.randomUUID(),
+  type: 'ai',
+  content: "Hi there! I'm your journal companion. How are you feeling today?",
+  timestamp: new Date(),
+});
+
+const ChatInterface = forwardRef<ChatInterfaceRef, ChatInterfaceProps>(({ onSaveEntry, onPersistMessage, subtitle = 'New conversation', headerAction }, ref) => {
+  const [messages, setMessages] = useState<Message[]>(() => [createGreeting()]);
   const [isTyping, setIsTyping] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  // The greeting is sequence 0 and is only persisted once the user actually replies
+  const sequenceRef = useRef(1);
+  const greetingPersistedRef = useRef(false);
+  const messagesRef = useRef(messages);
+  messagesRef.current = messages;
+  // Bumped on reset/restore so replies to an abandoned conversation are dropped
+  const conversationRef = useRef(0);
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
@@ -42,46 +49,98 @@ const ChatInterface = forwardRef<ChatInterfaceRef, ChatInterfaceProps>(({ onSave
 
   useImperativeHandle(ref, () => ({
     addMessage,
+    reset,
+    restore,
   }));
 
-  const addMessage = (content: string, type: 'user' | 'ai' = 'user') => {
+  const persistMessage = (message: Message, sequence: number) => {
+    if (!onPersistMessage) return;
+
+    if (!greetingPersistedRef.current) {
+      greetingPersistedRef.current = true;
+      const greeting = messagesRef.current[0];
+      if (greeting && greeting.type === 'ai') {
+        onPersistMessage(greeting, 0);
+      }
+    }
+    onPersistMessage(message, sequence);
+  };
+
+  // Start a fresh conversation with a new greeting
+  const reset = () => {
+    setMessages([createGreeting()]);
+    setIsTyping(false);
+    conversationRef.current++;
+    sequenceRef.current = 1;
+    greetingPersistedRef.current = false;
+  };
+
+  // Show a stored transcript and continue numbering after its last message
+  const restore = (transcript: Array<{ message: Message; sequence: number }>) => {
+    if (transcript.length === 0) {
+      reset();
+      return;
+    }
+
+    const ordered = [...transcript].sort((a, b) => a.sequence - b.sequence);
+    setMessages(ordered.map(item => item.message));
+    setIsTyping(false);
+    conversationRef.current++;
+    sequenceRef.current = ordered[ordered.length - 1].sequence + 1;
+    greetingPersistedRef.current = true;
+  };
+
+  const addMessage = async (content: string, type: 'user' | 'ai' = 'user') => {
     const newMessage: Message = {
-      id: Date.now().toString(),
+      id: crypto.randomUUID(),
       type,
       content,
       timestamp: new Date(),
       emojis: type === 'user' ? extractEmojis(content) : undefined,
     };
+    // Claim the position now so slower saves can't reorder the transcript
+    const sequence = sequenceRef.current++;
   
     setMessages(prev => [...prev, newMessage]);
     
-    // AUTO-SAVE USER MESSAGES
-    if (type === 'user') {
-      
-      // Also trigger the onSaveEntry callback for session management
-      if (onSaveEntry) {
-        onSaveEntry({
-          text: content,
-          emojis: extractEmojis(content),
-          timestamp: new Date(),
-        });
-      }
-    }
-    
     if (type === 'user') {
       setIsTyping(true);
-      // Simulate AI response
-      setTimeout(() => {
-        const aiResponse = generateAIResponse(content);
+      const conversation = conversationRef.current;
+      const turns = [...messagesRef.current, newMessage].map(message => ({
+        role: message.type === 'user' ? 'user' as const : 'assistant' as const,
+        content: message.content,
+      }));
+      aiService.generateCompanionReply(turns).then(aiResponse => {
+        if (conversation !== conversationRef.current) return;
+
         const aiMessage: Message = {
-          id: (Date.now() + 1).toString(),
+          id: crypto.randomUUID(),
           type: 'ai',
           content: aiResponse,
           timestamp: new Date(),
         };
+        const aiSequence = sequenceRef.current++;
         setMessages(prev => [...prev, aiMessage]);
         setIsTyping(false);
-      }, 1000);
+        persistMessage(aiMessage, aiSequence);
+      });
+
+      // AUTO-SAVE USER MESSAGES
+      // Also trigger the onSaveEntry callback for session management
+      let entryId: string | null | undefined;
+      if (onSaveEntry) {
+        entryId = (await onSaveEntry({
+          text: content,
+          emojis: extractEmojis(content),
+          timestamp: newMessage.timestamp,
+        })) ?? undefined;
+      }
+
+      const savedMessage = { ...newMessage, entryId: entryId ?? undefined };
+      setMessages(prev => prev.map(message => message.id === savedMessage.id ? savedMessage : message));
+      persistMessage(savedMessage, sequence);
+    } else {
+      persistMessage(newMessage, sequence);
     }
   };
   
@@ -91,17 +150,6 @@ const ChatInterface = forwardRef<ChatInterfaceRef, ChatInterfaceProps>(({ onSave
     return text.match(emojiRegex) || [];
   };
 
-  const generateAIResponse = (userInput: string): string => {
-    const responses = [
-      "That's interesting! Can you tell me more about how that made you feel?",
-      "I appreciate you sharing that with me. What would you like to explore further?",
-      "Thank you for opening up. How do you think this experience might help you grow?",
-      "I hear you. What's one small thing you could do to take care of yourself right now?",
-      "That sounds meaningful. What's something you're grateful for in this moment?",
-    ];
-    return responses[Math.floor(Math.random() * responses.length)];
-  };
-
 
   const handleSaveEntry = () => {
     const lastUserMessage = messages
@@ -120,55 +168,23 @@ const ChatInterface = forwardRef<ChatInterfaceRef, ChatInterfaceProps>(({ onSave
   return (
     <div className="h-full flex flex-col bg-white">
       {/* Header */}
-      <div className="flex items-center p-4 border-b border-gray-200 bg-white shadow-sm flex-shrink-0">
+      <div className="flex items-center justify-between p-4 border-b border-gray-200 bg-white shadow-sm flex-shrink-0">
         <div className="flex items-center space-x-3">
           <div className="w-10 h-10 rounded-full bg-gradient-to-br from-purple-500 to-blue-500 flex items-center justify-center">
             <Heart className="w-6 h-6 text-white" />
           </div>
           <div>
             <h1 className="text-lg font-semibold text-gray-900">Your Journal Companion</h1>
-            <p className="text-sm text-gray-500">New conversation</p>
+            <p className="text-sm text-gray-500">{subtitle}</p>
           </div>
         </div>
+        {headerAction}
       </div>
 
       {/* Messages Area */}
       <div className="flex-1 overflow-y-auto p-4 space-y-4 min-h-0">
         {messages.map((message) => (
-          <div
-            key={message.id}
-            className={`flex ${message.type === 'user' ? 'justify-end' : 'justify-start'}`}
-          >
-            <div className={`flex items-start space-x-3 max-w-[80%] ${message.type === 'user' ? 'flex-row-reverse space-x-reverse' : ''}`}>
-              {message.type === 'ai' && (
-                <Avatar className="w-8 h-8">
-                  <AvatarImage src="/ai-avatar.png" />
-                  <AvatarFallback className="bg-gradient-to-br from-purple-500 to-blue-500 text-white">
-                    AI
-                  </AvatarFallback>
-                </Avatar>
-              )}
-              <div className={`rounded-2xl px-4 py-3 ${
-                message.type === 'user' 
-                  ? 'bg-blue-500 text-white' 
-                  : 'bg-gray-100 text-gray-900'
-              }`}>
-                <p className="text-sm">{message.content}</p>
-                {message.emojis && message.emojis.length > 0 && (
-                  <div className="flex space-x-1 mt-2">
-                    {message.emojis.map((emoji, index) => (
-                      <span key={index} className="text-lg">{emoji}</span>
-                    ))}
-                  </div>
-                )}
-                <p className={`text-xs mt-2 ${
-                  message.type === 'user' ? 'text-blue-100' : 'text-gray-500'
-                }`}>
-                  {message.timestamp.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
-                </p>
-              </div>
-            </div>
-          </div>
+          <MessageBubble key={message.id} message={message} />
         ))}
         
         {isTyping && (
@@ -0,0 +1,75 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { ArrowLeft, MessageCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { storageService } from '@/lib/storageService';
+import { ChatSession } from '@/lib/database';
+import MessageBubble, { Message } from './MessageBubble';
+
+interface ConversationReplayProps {
+  session: ChatSession;
+  onBack: () => void;
+}
+
+// Read-only replay of a stored chat transcript
+export default function ConversationReplay({ session, onBack }: ConversationReplayProps) {
+  const [messages, setMessages] = useState<Message[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    const loadTranscript = async () => {
+      try {
+        const storedMessages = await storageService.getChatMessages(session.id);
+        setMessages(storedMessages.map(message => ({
+          id: message.id,
+          type: message.type,
+          content: typeof message.content === 'string' ? message.content : '[Unable to decrypt message]',
+          timestamp: message.timestamp,
+          emojis: message.emojis,
+          entryId: message.entryId,
+        })));
+      } catch (error) {
+        console.error('Failed to load conversation:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadTranscript();
+  }, [session.id]);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center space-x-2">
+        <Button onClick={onBack} variant="ghost" size="sm" className="px-2">
+          <ArrowLeft className="w-4 h-4" />
+        </Button>
+        <div>
+          <div className="text-sm font-medium text-gray-900">
+            {session.startTime.toLocaleDateString([], { year: 'numeric', month: 'short', day: 'numeric' })}
+          </div>
+          <div className="text-xs text-gray-500">
+            {session.startTime.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+            {session.endTime && ` – ${session.endTime.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`}
+          </div>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <p className="text-center text-sm text-gray-500 py-8">Loading conversation...</p>
+      ) : messages.length === 0 ? (
+        <div className="text-center py-12">
+          <MessageCircle className="w-12 h-12 mx-auto mb-4 text-gray-300" />
+          <p className="text-gray-500">No transcript was saved for this conversation</p>
+        </div>
+      ) : (
+        <div className="bg-white rounded-lg p-4 border border-gray-200 space-y-4">
+          {messages.map(message => (
+            <MessageBubble key={message.id} message={message} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
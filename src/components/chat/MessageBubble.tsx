@@ -0,0 +1,53 @@
+'use client';
+
+import React from 'react';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+
+export interface Message {
+  id: string;
+  type: 'ai' | 'user';
+  content: string;
+  timestamp: Date;
+  emojis?: string[];
+  entryId?: string;
+}
+
+interface MessageBubbleProps {
+  message: Message;
+}
+
+export default function MessageBubble({ message }: MessageBubbleProps) {
+  return (
+    <div className={`flex ${message.type === 'user' ? 'justify-end' : 'justify-start'}`}>
+      <div className={`flex items-start space-x-3 max-w-[80%] ${message.type === 'user' ? 'flex-row-reverse space-x-reverse' : ''}`}>
+        {message.type === 'ai' && (
+          <Avatar className="w-8 h-8">
+            <AvatarImage src="/ai-avatar.png" />
+            <AvatarFallback className="bg-gradient-to-br from-purple-500 to-blue-500 text-white">
+              AI
+            </AvatarFallback>
+          </Avatar>
+        )}
+        <div className={`rounded-2xl px-4 py-3 ${
+          message.type === 'user'
+            ? 'bg-blue-500 text-white'
+            : 'bg-gray-100 text-gray-900'
+        }`}>
+          <p className="text-sm">{message.content}</p>
+          {message.emojis && message.emojis.length > 0 && (
+            <div className="flex space-x-1 mt-2">
+              {message.emojis.map((emoji, index) => (
+                <span key={index} className="text-lg">{emoji}</span>
+              ))}
+            </div>
+          )}
+          <p className={`text-xs mt-2 ${
+            message.type === 'user' ? 'text-blue-100' : 'text-gray-500'
+          }`}>
+            {message.timestamp.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,99 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { X, MessageCircle, Plus } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { storageService } from '@/lib/storageService';
+import { ChatSession } from '@/lib/database';
+
+interface SessionPickerProps {
+  currentSessionId: string | null;
+  onSelect: (session: ChatSession) => void;
+  onNewSession: () => void;
+  onClose: () => void;
+}
+
+const formatSessionTime = (date: Date): string => {
+  return new Intl.DateTimeFormat('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  }).format(date);
+};
+
+// Overlay listing past chat sessions so a conversation can be resumed
+export default function SessionPicker({ currentSessionId, onSelect, onNewSession, onClose }: SessionPickerProps) {
+  const [sessions, setSessions] = useState<ChatSession[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    const loadSessions = async () => {
+      try {
+        const loadedSessions = await storageService.getAllChatSessions();
+        setSessions(loadedSessions.sort((a, b) => b.startTime.getTime() - a.startTime.getTime()));
+      } catch (error) {
+        console.error('Failed to load chat sessions:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadSessions();
+  }, []);
+
+  return (
+    <div className="fixed inset-0 z-40 bg-black/30 flex items-end sm:items-center justify-center" onClick={onClose}>
+      <div
+        className="w-full max-w-md max-h-[70vh] bg-white rounded-t-2xl sm:rounded-2xl shadow-lg flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-4 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-900">Conversations</h2>
+          <Button onClick={onClose} variant="ghost" size="sm" className="px-2">
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-3">
+          <Button onClick={onNewSession} variant="outline" className="w-full">
+            <Plus className="w-4 h-4 mr-2" />
+            New conversation
+          </Button>
+
+          {isLoading ? (
+            <p className="text-center text-sm text-gray-500 py-4">Loading conversations...</p>
+          ) : sessions.length === 0 ? (
+            <p className="text-center text-sm text-gray-500 py-4">No previous conversations yet</p>
+          ) : (
+            sessions.map(session => (
+              <button
+                key={session.id}
+                onClick={() => onSelect(session)}
+                className={`w-full text-left rounded-lg p-3 border ${
+                  session.id === currentSessionId
+                    ? 'border-blue-500 bg-blue-50'
+                    : 'border-gray-200 hover:bg-gray-50'
+                }`}
+              >
+                <div className="flex items-center space-x-2">
+                  <MessageCircle className="w-4 h-4 text-gray-400 flex-shrink-0" />
+                  <span className="text-sm text-gray-900">
+                    {formatSessionTime(session.startTime)}
+                    {session.endTime && ` – ${formatSessionTime(session.endTime)}`}
+                  </span>
+                </div>
+                {session.summary && (
+                  <p className="text-sm text-gray-600 mt-1 line-clamp-2">{session.summary}</p>
+                )}
+                <p className="text-xs text-gray-500 mt-1">
+                  {session.entryIds.length} {session.entryIds.length === 1 ? 'entry' : 'entries'}
+                </p>
+              </button>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
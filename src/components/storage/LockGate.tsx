@@ -0,0 +1,53 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { storageService } from '@/lib/storageService';
+import { encryptionManager } from '@/lib/encryption';
+import { autoLockManager } from '@/lib/autoLock';
+import UnlockJournal from './UnlockJournal';
+
+// Full-screen unlock prompt shared by every route whenever the encrypted journal is locked
+export default function LockGate() {
+  const [isLocked, setIsLocked] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const checkLocked = async () => {
+      try {
+        await storageService.initialize();
+        const locked = await storageService.isLocked();
+        if (!cancelled) setIsLocked(locked);
+      } catch (error) {
+        console.error('Failed to check journal lock state:', error);
+      }
+    };
+
+    const stopAutoLock = autoLockManager.start();
+    const unsubscribe = encryptionManager.onLockStateChange((unlocked) => {
+      if (unlocked) {
+        setIsLocked(false);
+      } else {
+        checkLocked();
+      }
+    });
+
+    checkLocked();
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+      stopAutoLock();
+    };
+  }, []);
+
+  if (!isLocked) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-gray-50">
+      <div className="w-full max-w-md mx-4">
+        <UnlockJournal onUnlocked={async () => setIsLocked(false)} />
+      </div>
+    </div>
+  );
+}
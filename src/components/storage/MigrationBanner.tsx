@@ -0,0 +1,51 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Loader2, AlertTriangle } from 'lucide-react';
+import { storageService } from '@/lib/storageService';
+import { MigrationProgress } from '@/lib/migrations';
+
+export default function MigrationBanner() {
+  const [progress, setProgress] = useState<MigrationProgress | null>(null);
+
+  useEffect(() => {
+    return storageService.onMigrationProgress(setProgress);
+  }, []);
+
+  // Fresh installs create their stores instantly; only surface upgrades of existing journals
+  if (!progress || progress.status === 'completed') return null;
+  if (progress.fromVersion === 0 && progress.status !== 'failed') return null;
+
+  if (progress.status === 'failed') {
+    return (
+      <div className="fixed top-0 left-0 right-0 z-50 bg-red-50 border-b border-red-200 p-3">
+        <div className="flex items-start space-x-2 text-sm text-red-800">
+          <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+          <div>
+            <div className="font-medium">Your journal could not be upgraded</div>
+            <div className="text-red-700">
+              Update to version {progress.currentVersion} failed and was rolled back. Your existing entries are unchanged.
+              {progress.error && <span className="block text-xs mt-1">{progress.error.message}</span>}
+            </div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="fixed top-0 left-0 right-0 z-50 bg-blue-50 border-b border-blue-200 p-3">
+      <div className="flex items-center space-x-2 text-sm text-blue-800">
+        <Loader2 className="w-4 h-4 animate-spin flex-shrink-0" />
+        {progress.status === 'blocked' ? (
+          <span>Close other Vibe Journal tabs to finish upgrading your journal.</span>
+        ) : (
+          <span>
+            Upgrading your journal ({progress.completed + 1} of {progress.total})
+            {progress.description && `: ${progress.description}`}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,48 @@
+'use client';
+
+import React, { useState } from 'react';
+import { KeyRound, Copy, Check } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+
+interface RecoveryKeyNoticeProps {
+  recoveryKey: string;
+  onDone: () => void;
+}
+
+// Shows a freshly generated recovery key once; it is never stored in readable form
+export default function RecoveryKeyNotice({ recoveryKey, onDone }: RecoveryKeyNoticeProps) {
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(recoveryKey);
+      setCopied(true);
+    } catch (error) {
+      console.error('Failed to copy recovery key:', error);
+    }
+  };
+
+  return (
+    <div className="p-4 bg-amber-50 border border-amber-200 rounded-md space-y-3">
+      <div className="flex items-center space-x-2 text-amber-900">
+        <KeyRound className="w-4 h-4" />
+        <div className="font-medium">Save your recovery key</div>
+      </div>
+      <div className="text-sm text-amber-800">
+        If you forget your password, this key is the only way to unlock your journal. Write it down or store it in a password manager. It will not be shown again.
+      </div>
+      <div className="font-mono text-sm text-gray-900 bg-white border border-amber-200 rounded p-3 break-all select-all">
+        {recoveryKey}
+      </div>
+      <div className="flex space-x-2">
+        <Button onClick={handleCopy} variant="outline" size="sm" className="flex-1">
+          {copied ? <Check className="w-4 h-4 mr-2" /> : <Copy className="w-4 h-4 mr-2" />}
+          {copied ? 'Copied' : 'Copy'}
+        </Button>
+        <Button onClick={onDone} size="sm" className="flex-1">
+          I&apos;ve saved it
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,241 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Calendar, KeyRound } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { storageService } from '@/lib/storageService';
+import { WrongPasswordError } from '@/lib/encryption';
+
+interface UnlockJournalProps {
+  onUnlocked: () => Promise<void>;
+}
+
+type UnlockMode = 'password' | 'recovery' | 'reset';
+
+// Unlock with the password, or with the recovery key followed by a mandatory new password
+export default function UnlockJournal({ onUnlocked }: UnlockJournalProps) {
+  const [mode, setMode] = useState<UnlockMode>('password');
+  const [password, setPassword] = useState('');
+  const [recoveryKey, setRecoveryKey] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmNewPassword, setConfirmNewPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const switchMode = (nextMode: UnlockMode) => {
+    setMode(nextMode);
+    setError(null);
+  };
+
+  const handlePasswordSubmit = async () => {
+    if (!password.trim()) return;
+
+    setIsWorking(true);
+    setError(null);
+    try {
+      await storageService.initialize(password);
+      setPassword('');
+      await onUnlocked();
+    } catch (unlockError) {
+      if (unlockError instanceof WrongPasswordError) {
+        setError('Incorrect password. Please try again.');
+        setPassword('');
+      } else {
+        console.error('Failed to decrypt entries:', unlockError);
+        setError('Could not unlock your journal. Please try again.');
+      }
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleRecoveryKeySubmit = async () => {
+    if (!recoveryKey.trim()) return;
+
+    setIsWorking(true);
+    setError(null);
+    try {
+      if (await storageService.checkRecoveryKey(recoveryKey)) {
+        switchMode('reset');
+      } else {
+        setError('Incorrect recovery key. Check it and try again.');
+      }
+    } catch (checkError) {
+      console.error('Failed to check recovery key:', checkError);
+      setError('Could not check the recovery key. Please try again.');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleResetSubmit = async () => {
+    if (newPassword.length < 8) {
+      setError('Password must be at least 8 characters long');
+      return;
+    }
+    if (newPassword !== confirmNewPassword) {
+      setError('Passwords do not match');
+      return;
+    }
+
+    setIsWorking(true);
+    setError(null);
+    try {
+      await storageService.initializeWithRecoveryKey(recoveryKey, newPassword);
+      setRecoveryKey('');
+      setNewPassword('');
+      setConfirmNewPassword('');
+      await onUnlocked();
+    } catch (resetError) {
+      console.error('Failed to reset password:', resetError);
+      setError('Could not reset your password. Please try again.');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handlePanicWipe = async () => {
+    if (!confirm('Erase this journal from this device right now? It cannot be recovered.')) {
+      return;
+    }
+
+    try {
+      await storageService.panicWipe();
+    } catch (wipeError) {
+      console.error('Failed to wipe data:', wipeError);
+      alert('Could not erase everything. Please try again.');
+      return;
+    }
+    window.location.replace('/');
+  };
+
+  const errorMessage = error && (
+    <p className="text-sm text-red-600" role="alert">{error}</p>
+  );
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+      {mode === 'password' && (
+        <>
+          <div className="text-center mb-6">
+            <Calendar className="w-12 h-12 mx-auto mb-4 text-blue-500" />
+            <h2 className="text-xl font-semibold text-gray-900 mb-2">Enter Password</h2>
+            <p className="text-gray-600">Your journal entries are encrypted. Please enter your password to view them.</p>
+          </div>
+
+          <div className="space-y-4">
+            <Input
+              type="password"
+              placeholder="Enter your password"
+              value={password}
+              onChange={(e) => {
+                setPassword(e.target.value);
+                setError(null);
+              }}
+              onKeyPress={(e) => e.key === 'Enter' && handlePasswordSubmit()}
+              className={`w-full ${error ? 'border-red-500' : ''}`}
+              aria-invalid={error !== null}
+            />
+            {errorMessage}
+
+            <Button
+              onClick={handlePasswordSubmit}
+              disabled={!password.trim() || isWorking}
+              className="w-full"
+            >
+              {isWorking ? 'Decrypting...' : 'Decrypt Entries'}
+            </Button>
+            <Button onClick={() => switchMode('recovery')} variant="ghost" className="w-full">
+              Forgot password? Use recovery key
+            </Button>
+            <Button onClick={handlePanicWipe} variant="ghost" className="w-full text-red-600">
+              Erase journal
+            </Button>
+          </div>
+        </>
+      )}
+
+      {mode === 'recovery' && (
+        <>
+          <div className="text-center mb-6">
+            <KeyRound className="w-12 h-12 mx-auto mb-4 text-blue-500" />
+            <h2 className="text-xl font-semibold text-gray-900 mb-2">Use Recovery Key</h2>
+            <p className="text-gray-600">Enter the recovery key you saved when you set up encryption.</p>
+          </div>
+
+          <div className="space-y-4">
+            <Input
+              placeholder="XXXX-XXXX-XXXX-XXXX-XXXX-XXXX-XXXX-XXXX"
+              value={recoveryKey}
+              onChange={(e) => {
+                setRecoveryKey(e.target.value);
+                setError(null);
+              }}
+              onKeyPress={(e) => e.key === 'Enter' && handleRecoveryKeySubmit()}
+              className={`w-full font-mono ${error ? 'border-red-500' : ''}`}
+              aria-invalid={error !== null}
+              autoComplete="off"
+              spellCheck={false}
+            />
+            {errorMessage}
+
+            <Button
+              onClick={handleRecoveryKeySubmit}
+              disabled={!recoveryKey.trim() || isWorking}
+              className="w-full"
+            >
+              {isWorking ? 'Checking...' : 'Continue'}
+            </Button>
+            <Button onClick={() => switchMode('password')} variant="ghost" className="w-full">
+              Back to password
+            </Button>
+          </div>
+        </>
+      )}
+
+      {mode === 'reset' && (
+        <>
+          <div className="text-center mb-6">
+            <KeyRound className="w-12 h-12 mx-auto mb-4 text-green-500" />
+            <h2 className="text-xl font-semibold text-gray-900 mb-2">Set a New Password</h2>
+            <p className="text-gray-600">Recovery key accepted. Choose a new password to finish unlocking your journal.</p>
+          </div>
+
+          <div className="space-y-4">
+            <Input
+              type="password"
+              placeholder="New password (min 8 characters)"
+              value={newPassword}
+              onChange={(e) => {
+                setNewPassword(e.target.value);
+                setError(null);
+              }}
+              className="w-full"
+            />
+            <Input
+              type="password"
+              placeholder="Confirm new password"
+              value={confirmNewPassword}
+              onChange={(e) => {
+                setConfirmNewPassword(e.target.value);
+                setError(null);
+              }}
+              onKeyPress={(e) => e.key === 'Enter' && handleResetSubmit()}
+              className="w-full"
+            />
+            {errorMessage}
+
+            <Button
+              onClick={handleResetSubmit}
+              disabled={!newPassword || !confirmNewPassword || isWorking}
+              className="w-full"
+            >
+              {isWorking ? 'Unlocking...' : 'Reset Password and Unlock'}
+            </Button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
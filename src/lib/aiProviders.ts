@@ -0,0 +1,251 @@
+// LLM providers behind AIService: OpenAI (via our proxy), OpenAI-compatible endpoints, Ollama, and an offline mock
+import { AIProxyError, AIProxyErrorBody, AIProxyPurpose, AIProxyResponse, AI_PROXY_ENDPOINT } from './aiProxy';
+import { analyzeEmotions } from './emotions';
+
+export type AIProviderType = 'openai' | 'ollama' | 'mock';
+
+export interface AIProviderConfig {
+  type: AIProviderType;
+  baseUrl: string;
+  model: string;
+}
+
+export interface ChatCompletionMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface ChatCompletionOptions {
+  purpose: AIProxyPurpose;
+  maxTokens: number;
+  temperature: number;
+  json?: boolean; // Caller expects a JSON object back
+  signal?: AbortSignal;
+}
+
+export interface AIProvider {
+  readonly type: AIProviderType;
+  isAvailable(): boolean;
+  complete(messages: ChatCompletionMessage[], options: ChatCompletionOptions): Promise<string>;
+}
+
+// Suggested base URL and model when switching provider in Settings
+export const AI_PROVIDER_DEFAULTS: Record<AIProviderType, AIProviderConfig> = {
+  openai: { type: 'openai', baseUrl: 'https://api.openai.com/v1', model: 'gpt-3.5-turbo' },
+  ollama: { type: 'ollama', baseUrl: 'http://localhost:11434', model: 'llama3.1' },
+  mock: { type: 'mock', baseUrl: '', model: 'mock' },
+};
+
+export const DEFAULT_AI_PROVIDER_CONFIG: AIProviderConfig = AI_PROVIDER_DEFAULTS.openai;
+
+export function isAIProviderConfig(value: unknown): value is AIProviderConfig {
+  if (typeof value !== 'object' || value === null) return false;
+  const { type, baseUrl, model } = value as Record<string, unknown>;
+  return (type === 'openai' || type === 'ollama' || type === 'mock') &&
+    typeof baseUrl === 'string' &&
+    typeof model === 'string';
+}
+
+const trimTrailingSlash = (url: string): string => url.replace(/\/+$/, '');
+
+const isHostedOpenAI = (baseUrl: string): boolean => {
+  try {
+    return new URL(baseUrl).hostname === 'api.openai.com';
+  } catch {
+    return false;
+  }
+};
+
+// Hosted OpenAI through /api/ai; the server holds the key and enforces rate limits
+export class OpenAIProxyProvider implements AIProvider {
+  readonly type = 'openai';
+  private notConfigured = false;
+  private retryAt = new Map<AIProxyPurpose, number>();
+
+  constructor(private readonly model: string) {}
+
+  // Stop calling the proxy once it has told us no key is set
+  isAvailable(): boolean {
+    return !this.notConfigured && Boolean(this.model);
+  }
+
+  async complete(messages: ChatCompletionMessage[], options: ChatCompletionOptions): Promise<string> {
+    // Don't hit the server again while it has asked us to back off
+    const retryAt = this.retryAt.get(options.purpose) ?? 0;
+    if (Date.now() < retryAt) {
+      throw new AIProxyError('Rate limited, waiting before retrying', 'rate_limited', 429, Math.ceil((retryAt - Date.now()) / 1000));
+    }
+
+    const response = await fetch(AI_PROXY_ENDPOINT, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        purpose: options.purpose,
+        model: this.model,
+        messages,
+        maxTokens: options.maxTokens,
+        temperature: options.temperature,
+      }),
+      signal: options.signal,
+    });
+
+    if (!response.ok) {
+      const body = await response.json().catch(() => null) as AIProxyErrorBody | null;
+      const code = body?.error?.code ?? 'upstream_error';
+      const retryAfter = body?.error?.retryAfter;
+
+      if (code === 'not_configured') {
+        this.notConfigured = true;
+      }
+      if (code === 'rate_limited' && retryAfter) {
+        this.retryAt.set(options.purpose, Date.now() + retryAfter * 1000);
+      }
+      throw new AIProxyError(body?.error?.message ?? `AI proxy error: ${response.status}`, code, response.status, retryAfter);
+    }
+
+    const data = await response.json() as AIProxyResponse;
+    return data.content;
+  }
+}
+
+// Self-hosted servers speaking the OpenAI chat-completions API (llama.cpp server, vLLM, ...)
+export class OpenAICompatibleProvider implements AIProvider {
+  readonly type = 'openai';
+
+  constructor(private readonly config: AIProviderConfig) {}
+
+  isAvailable(): boolean {
+    return Boolean(this.config.baseUrl && this.config.model);
+  }
+
+  async complete(messages: ChatCompletionMessage[], options: ChatCompletionOptions): Promise<string> {
+    const response = await fetch(`${trimTrailingSlash(this.config.baseUrl)}/chat/completions`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        model: this.config.model,
+        messages,
+        max_tokens: options.maxTokens,
+        temperature: options.temperature,
+      }),
+      signal: options.signal,
+    });
+
+    if (!response.ok) {
+      console.error('❌ OpenAI API Error:', response.status, response.statusText);
+      throw new Error(`OpenAI API error: ${response.status}`);
+    }
+
+    const data = await response.json();
+    const content = data.choices?.[0]?.message?.content;
+    if (typeof content !== 'string') {
+      throw new Error('OpenAI API returned no message content');
+    }
+    return content;
+  }
+}
+
+// Locally hosted Ollama server using its native /api/chat endpoint
+export class OllamaProvider implements AIProvider {
+  readonly type = 'ollama';
+
+  constructor(private readonly config: AIProviderConfig) {}
+
+  isAvailable(): boolean {
+    return Boolean(this.config.baseUrl && this.config.model);
+  }
+
+  async complete(messages: ChatCompletionMessage[], options: ChatCompletionOptions): Promise<string> {
+    const response = await fetch(`${trimTrailingSlash(this.config.baseUrl)}/api/chat`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        model: this.config.model,
+        messages,
+        stream: false,
+        format: options.json ? 'json' : undefined,
+        options: {
+          num_predict: options.maxTokens,
+          temperature: options.temperature,
+        },
+      }),
+      signal: options.signal,
+    });
+
+    if (!response.ok) {
+      console.error('❌ Ollama API Error:', response.status, response.statusText);
+      throw new Error(`Ollama API error: ${response.status}`);
+    }
+
+    const data = await response.json();
+    const content = data.message?.content;
+    if (typeof content !== 'string') {
+      throw new Error('Ollama API returned no message content');
+    }
+    return content;
+  }
+}
+
+// Deterministic responses for offline development: same input, same output
+export class MockProvider implements AIProvider {
+  readonly type = 'mock';
+
+  isAvailable(): boolean {
+    return true;
+  }
+
+  async complete(messages: ChatCompletionMessage[], options: ChatCompletionOptions): Promise<string> {
+    const lastUserMessage = [...messages].reverse().find(message => message.role === 'user')?.content ?? '';
+
+    if (options.json) {
+      return JSON.stringify(
+        lastUserMessage.includes('"entryEmotions"') ? this.mockEmotions(lastUserMessage) : this.mockSentiment(lastUserMessage)
+      );
+    }
+
+    const excerpt = lastUserMessage.trim().split(/\s+/).slice(0, 8).join(' ');
+    return excerpt
+      ? `It sounds like "${excerpt}" is on your mind. What feels most important about that right now?`
+      : 'What would you like to write about today?';
+  }
+
+  // Neutral scores for every "Entry N:" line in the analysis prompt
+  private mockSentiment(prompt: string) {
+    const entryIndices = Array.from(prompt.matchAll(/^Entry (\d+):/gm), match => Number(match[1]));
+    return {
+      overallSentiment: 'neutral',
+      sentimentScore: 0,
+      entrySentiments: entryIndices.map(entryIndex => ({
+        entryIndex,
+        sentiment: 'neutral',
+        score: 0,
+        confidence: 0.5,
+      })),
+    };
+  }
+
+  // On-device emotion intensities for every "Entry N:" line in an emotion refinement prompt
+  private mockEmotions(prompt: string) {
+    return {
+      entryEmotions: Array.from(prompt.matchAll(/^Entry (\d+): (.*)$/gm), match => ({
+        entryIndex: Number(match[1]),
+        emotions: analyzeEmotions(match[2]),
+      })),
+    };
+  }
+}
+
+export function createAIProvider(config: AIProviderConfig): AIProvider {
+  switch (config.type) {
+    case 'openai':
+      return isHostedOpenAI(config.baseUrl)
+        ? new OpenAIProxyProvider(config.model)
+        : new OpenAICompatibleProvider(config);
+    case 'ollama':
+      return new OllamaProvider(config);
+    case 'mock':
+      return new MockProvider();
+    default:
+      throw new Error(`Unknown AI provider: ${config.type}`);
+  }
+}
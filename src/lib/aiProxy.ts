@@ -0,0 +1,97 @@
+// Contract between the browser and the /api/ai route that holds the OpenAI key server-side
+import type { ChatCompletionMessage } from './aiProviders';
+
+export const AI_PROXY_ENDPOINT = '/api/ai';
+
+// Analysis and chat are rate limited separately
+export type AIProxyPurpose = 'analysis' | 'chat';
+
+export interface AIProxyRequest {
+  purpose: AIProxyPurpose;
+  model: string;
+  messages: ChatCompletionMessage[];
+  maxTokens: number;
+  temperature: number;
+}
+
+export interface AIProxyResponse {
+  content: string;
+}
+
+export type AIProxyErrorCode =
+  | 'invalid_json'
+  | 'invalid_payload'
+  | 'payload_too_large'
+  | 'model_not_allowed'
+  | 'not_configured'
+  | 'rate_limited'
+  | 'upstream_error'
+  | 'timeout';
+
+export interface AIProxyErrorBody {
+  error: {
+    code: AIProxyErrorCode;
+    message: string;
+    retryAfter?: number; // Seconds, only for rate_limited
+  };
+}
+
+export class AIProxyError extends Error {
+  constructor(
+    message: string,
+    public readonly code: AIProxyErrorCode,
+    public readonly status: number,
+    public readonly retryAfter?: number
+  ) {
+    super(message);
+    this.name = 'AIProxyError';
+  }
+}
+
+export const AI_PROXY_LIMITS = {
+  maxMessages: 40,
+  maxContentLength: 20000,
+  maxTokens: 1000,
+  maxModelLength: 100,
+};
+
+export type AIProxyValidation =
+  | { ok: true; request: AIProxyRequest }
+  | { ok: false; error: string };
+
+const isMessage = (value: unknown): value is ChatCompletionMessage => {
+  if (typeof value !== 'object' || value === null) return false;
+  const { role, content } = value as Record<string, unknown>;
+  return (role === 'system' || role === 'user' || role === 'assistant') &&
+    typeof content === 'string' &&
+    content.length <= AI_PROXY_LIMITS.maxContentLength;
+};
+
+export function validateAIProxyRequest(data: unknown): AIProxyValidation {
+  if (typeof data !== 'object' || data === null) {
+    return { ok: false, error: 'Payload must be a JSON object' };
+  }
+
+  const { purpose, model, messages, maxTokens, temperature } = data as Record<string, unknown>;
+
+  if (purpose !== 'analysis' && purpose !== 'chat') {
+    return { ok: false, error: 'purpose must be "analysis" or "chat"' };
+  }
+  if (typeof model !== 'string' || model.length === 0 || model.length > AI_PROXY_LIMITS.maxModelLength) {
+    return { ok: false, error: 'model is required' };
+  }
+  if (!Array.isArray(messages) || messages.length === 0 || messages.length > AI_PROXY_LIMITS.maxMessages || !messages.every(isMessage)) {
+    return { ok: false, error: `messages must be an array of at most ${AI_PROXY_LIMITS.maxMessages} chat messages` };
+  }
+  if (typeof maxTokens !== 'number' || !Number.isInteger(maxTokens) || maxTokens < 1 || maxTokens > AI_PROXY_LIMITS.maxTokens) {
+    return { ok: false, error: `maxTokens must be an integer between 1 and ${AI_PROXY_LIMITS.maxTokens}` };
+  }
+  if (typeof temperature !== 'number' || temperature < 0 || temperature > 2) {
+    return { ok: false, error: 'temperature must be between 0 and 2' };
+  }
+
+  return {
+    ok: true,
+    request: { purpose, model, messages: messages as ChatCompletionMessage[], maxTokens, temperature },
+  };
+}
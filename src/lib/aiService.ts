@@ -1,8 +1,21 @@
 // AI Service for journal entry analysis
 import { JournalEntry } from './database';
+import {
+  AIProvider,
+  AIProviderConfig,
+  ChatCompletionMessage,
+  ChatCompletionOptions,
+  DEFAULT_AI_PROVIDER_CONFIG,
+  createAIProvider,
+} from './aiProviders';
+import { AIProxyError, AI_PROXY_LIMITS } from './aiProxy';
+import { RedactionCounts, addRedactionCounts, emptyRedactionCounts, redactText } from './redaction';
+import { analyzeSentiment, classifySentiment, SentimentLabel } from './sentiment';
+import { ThemeDocument, buildTermVectors, clusterThemes, topTerms } from './themes';
+import { EMOTIONS, Emotion, EmotionIntensities, analyzeEmotions, emptyEmotionIntensities, getDominantEmotion } from './emotions';
 
 // AI Analysis Types
-export type AnalysisType = 'sentiment' | 'patterns' | 'trends';
+export type AnalysisType = 'sentiment' | 'patterns' | 'trends' | 'emotions';
 
 export interface AIAnalysisRequest {
   entries: JournalEntry[];
@@ -11,6 +24,7 @@ export interface AIAnalysisRequest {
     start: Date;
     end: Date;
   };
+  refineWithAI?: boolean; // Emotions are local unless the user asks for a refinement
 }
 
 export interface SentimentAnalysisResult {
@@ -35,7 +49,8 @@ export interface PatternAnalysisResult {
     patterns: Array<{
       name: string;
       frequency: number;
-      entries: string[];
+      entries: string[]; // Most representative first
+      examples: string[]; // A few entries that typify the theme
       keywords: string[];
     }>;
     topPatterns: string[];
@@ -67,45 +82,143 @@ export interface TrendAnalysisResult {
   timestamp: Date;
 }
 
-export type AIAnalysisResult = SentimentAnalysisResult | PatternAnalysisResult | TrendAnalysisResult;
-
-// Cache Management
-interface CacheEntry {
-  result: AIAnalysisResult;
+export interface EmotionAnalysisResult {
+  type: 'emotions';
+  data: {
+    entryEmotions: Array<{
+      entryId: string;
+      emotions: EmotionIntensities; // 0 to 1 each
+      dominantEmotion: Emotion | null;
+    }>;
+    weeklyMix: Array<{
+      weekStart: string; // Monday of the week, YYYY-MM-DD
+      entryCount: number;
+      mix: EmotionIntensities; // Each emotion's share of the week, summing to 1
+    }>;
+  };
+  confidence: number;
   timestamp: Date;
-  entryCount: number; // Track number of entries when cached
 }
 
-// Rate Limiting Management
-interface RateLimitState {
-  lastRequestTime: number;
-  requestCount: number;
-  resetTime: number;
+export type AIAnalysisResult = SentimentAnalysisResult | PatternAnalysisResult | TrendAnalysisResult | EmotionAnalysisResult;
+
+// Companion chat
+export interface ChatTurn {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+// Exactly what an analysis request sends to the provider, after private entries are left out
+// and personal details redacted
+// One request to the provider, with the entries it carries numbered from 1
+export interface AIPromptBatch {
+  messages: ChatCompletionMessage[];
+  sentEntryIds: string[];
+}
+
+export interface AIPromptPreview {
+  analysisType: AnalysisType;
+  provider: AIProviderConfig['type'];
+  model: string;
+  batches: AIPromptBatch[]; // Sent one after another, in this order
+  sentEntryIds: string[]; // Across every batch
+  privateEntryCount: number;
+  redactions: RedactionCounts;
+}
+
+const ANALYSIS_SYSTEM_PROMPT = 'You are an AI assistant that analyzes journal entries. Provide structured, helpful insights about the user\'s thoughts and emotions. Return only valid JSON responses.';
+
+// Entries that may leave the device: readable, non-empty and not marked private
+function isShareableEntry(entry: JournalEntry): boolean {
+  return !entry.aiPrivate && typeof entry.content === 'string' && entry.content.trim() !== '';
+}
+
+// Per-entry results stored on the JournalEntry. Sentiment may be scored by the AI provider, so it
+// is versioned apart from themes, which are always extracted on the device: bumping the theme
+// version never sends an entry anywhere.
+export const SENTIMENT_ANALYSIS_VERSION = '2';
+export const THEME_ANALYSIS_VERSION = '1';
+
+export interface EntryThemes {
+  entryId: string;
+  themes: string[]; // Most distinctive phrases first
+  themesVersion: string;
+}
+
+export interface EntryAnalysis extends EntryThemes {
+  sentimentScore: number; // -1 to 1
+  analysisTimestamp: Date;
+  analysisVersion?: string; // Sentiment version; unset while a local score stands in for one the AI still owes
+}
+
+// New, edited (their analysis is cleared on edit) or scored by an older sentiment version
+export function needsEntryAnalysis(entry: JournalEntry): boolean {
+  return typeof entry.content === 'string' && entry.analysisVersion !== SENTIMENT_ANALYSIS_VERSION;
+}
+
+// New, edited or with themes from an older theme version
+export function needsThemeAnalysis(entry: JournalEntry): boolean {
+  return typeof entry.content === 'string' && entry.themesVersion !== THEME_ANALYSIS_VERSION;
+}
+
+const ENTRY_THEME_LIMIT = 5;
+
+// Each scored entry takes about this many tokens of the JSON reply, so entries are sent in
+// batches that fit the analysis response budget
+const ANALYSIS_MAX_TOKENS = 800;
+const SENTIMENT_REPLY_OVERHEAD_TOKENS = 80;
+const SENTIMENT_TOKENS_PER_ENTRY = 40;
+const SENTIMENT_BATCH_SIZE = Math.floor(
+  (ANALYSIS_MAX_TOKENS - SENTIMENT_REPLY_OVERHEAD_TOKENS) / SENTIMENT_TOKENS_PER_ENTRY
+);
+// A refined entry lists an intensity for every emotion, so far fewer fit in one reply
+const EMOTION_REPLY_OVERHEAD_TOKENS = 40;
+const EMOTION_TOKENS_PER_ENTRY = 20 + EMOTIONS.length * 8;
+const EMOTION_BATCH_SIZE = Math.floor(
+  (ANALYSIS_MAX_TOKENS - EMOTION_REPLY_OVERHEAD_TOKENS) / EMOTION_TOKENS_PER_ENTRY
+);
+
+// Each prompt must also fit the proxy's per-message limit: batches close before they would
+// outgrow it, and an entry too long to fit on its own is cut short
+const MAX_PROMPT_LENGTH = AI_PROXY_LIMITS.maxContentLength;
+const ENTRY_LABEL_RESERVE = 16; // Room for "Entry N: " and the blank line between entries
+
+// A rate-limited batch is retried after the wait the provider asks for, within these bounds
+const MAX_RATE_LIMIT_WAIT_SECONDS = 60;
+const MAX_RATE_LIMIT_RETRIES = 3;
+
+// Bump when analysis output changes so cached results are recomputed
+const ANALYSIS_CACHE_VERSION = 3;
+
+// Durable home for analysis results; StorageService provides one backed by the database
+export interface AnalysisCacheStore {
+  get(key: string): Promise<AIAnalysisResult | null>;
+  set(key: string, analysisType: AnalysisType, result: AIAnalysisResult): Promise<void>;
 }
 
 export class AIService {
-  private cache = new Map<string, CacheEntry>();
-  private apiKey: string | null = null;
+  private cacheStore: AnalysisCacheStore | null = null;
+  private providerConfig: AIProviderConfig = DEFAULT_AI_PROVIDER_CONFIG;
+  private provider: AIProvider | null = null;
   private isInitialized = false;
-  private rateLimitState: RateLimitState = {
-    lastRequestTime: 0,
-    requestCount: 0,
-    resetTime: 0,
-  };
   private pendingRequests = new Map<string, Promise<AIAnalysisResult>>();
 
-  // Rate limiting configuration
-  private readonly RATE_LIMIT_REQUESTS_PER_MINUTE = 3;
-  private readonly RATE_LIMIT_WINDOW = 60 * 1000; // 1 minute
-  private readonly REQUEST_DELAY = 2000; // 2 seconds between requests
+  // Companion chat configuration
+  private readonly CHAT_HISTORY_LIMIT = 20; // Most recent turns sent as context
+  private readonly CHAT_TIMEOUT = 15000; // 15 seconds before falling back to a local reply
+  private readonly COMPANION_SYSTEM_PROMPT = `You are a warm, empathetic journaling companion. The user is writing in their private journal through a chat.
+- Reflect back something specific the user just said so they feel heard.
+- Ask exactly one gentle, open-ended follow-up question that helps them explore their thoughts or feelings.
+- Keep replies to two or three short sentences. Do not give medical, legal or financial advice.
+- If the user mentions being in danger or wanting to harm themselves, kindly encourage them to reach out to someone they trust or a local crisis line.`;
 
-  // Initialize with API key from environment
+  // Rate limits and the OpenAI key live in the /api/ai route, never in the browser
   async initialize(): Promise<void> {
     try {
-      this.apiKey = process.env.NEXT_PUBLIC_OPENAI_API_KEY || null;
+      this.provider = createAIProvider(this.providerConfig);
       
-      if (!this.apiKey) {
-        console.warn('OpenAI API key not found. AI analysis will be limited to local processing.');
+      if (!this.provider.isAvailable()) {
+        console.warn(`AI provider "${this.providerConfig.type}" is not configured. AI analysis will be limited to local processing.`);
       }
       
       this.isInitialized = true;
@@ -116,16 +229,40 @@ export class AIService {
     }
   }
 
+  // Switch provider, base URL or model; the provider is part of the cache key
+  configureProvider(config: AIProviderConfig): void {
+    this.providerConfig = { ...config };
+    this.provider = createAIProvider(this.providerConfig);
+    console.log(`🤖 AI provider set to ${config.type} (${config.model})`);
+  }
+
+  setCacheStore(store: AnalysisCacheStore | null): void {
+    this.cacheStore = store;
+  }
+
+  getProviderConfig(): AIProviderConfig {
+    return { ...this.providerConfig };
+  }
+
+  private canUseProvider(): boolean {
+    return this.provider?.isAvailable() ?? false;
+  }
+
+  // Sentiment always goes to the provider when one is set up; emotions only when refinement is asked for
+  private wantsProvider(request: AIAnalysisRequest): boolean {
+    return request.analysisType === 'sentiment' || (request.analysisType === 'emotions' && request.refineWithAI === true);
+  }
+
   // Main analysis method - hybrid approach with improved rate limiting
   async analyzeEntries(request: AIAnalysisRequest): Promise<AIAnalysisResult> {
     if (!this.isInitialized) {
       await this.initialize();
     }
 
-    const cacheKey = this.generateCacheKey(request);
+    const cacheKey = await this.generateCacheKey(request);
     
     // Check cache first
-    const cachedResult = this.getCachedResult(cacheKey, request.entries.length);
+    const cachedResult = await this.getCachedResult(cacheKey);
     if (cachedResult) {
       console.log('Using cached analysis result');
       return cachedResult;
@@ -156,33 +293,26 @@ export class AIService {
     try {
       let result: AIAnalysisResult;
 
-      // For sentiment analysis, try AI first if we have unencrypted content
-      if (this.apiKey && request.analysisType === 'sentiment' && this.canMakeAPIRequest()) {
-        const hasUnencryptedContent = request.entries.some(entry => 
-          typeof entry.content === 'string' && entry.content.trim() !== ''
-        );
-        
-        if (hasUnencryptedContent) {
+      // For sentiment analysis and requested emotion refinement, try AI first if any entry may be shared
+      if (this.canUseProvider() && this.wantsProvider(request)) {
+        if (request.entries.some(isShareableEntry)) {
           try {
-            // Add delay for rate limiting
-            await this.enforceRateLimit();
             result = await this.runAIAnalysis(request);
-            this.updateRateLimitState();
           } catch (apiError) {
             console.warn('AI API failed, falling back to local analysis:', apiError);
             result = await this.runLocalAnalysis(request);
           }
         } else {
-          // No unencrypted content, use local analysis
+          // Nothing may be shared, use local analysis
           result = await this.runLocalAnalysis(request);
         }
       } else {
-        // For patterns, trends, or when rate limited, use local analysis
+        // For patterns, trends, local emotions, or without a provider, use local analysis
         result = await this.runLocalAnalysis(request);
       }
 
       // Cache the result
-      this.cacheResult(cacheKey, result, request.entries.length);
+      await this.cacheResult(cacheKey, request.analysisType, result);
       
       return result;
     } catch (error) {
@@ -191,93 +321,176 @@ export class AIService {
     }
   }
 
-  // Rate limiting methods
-  private canMakeAPIRequest(): boolean {
-    const now = Date.now();
-    
-    // Reset count if window has passed
-    if (now > this.rateLimitState.resetTime) {
-      this.rateLimitState.requestCount = 0;
-      this.rateLimitState.resetTime = now + this.RATE_LIMIT_WINDOW;
+  // Shared chat-completion call used by analysis and the companion
+  private async requestChatCompletion(
+    messages: ChatCompletionMessage[],
+    options: ChatCompletionOptions
+  ): Promise<string> {
+    if (!this.provider || !this.provider.isAvailable()) {
+      throw new Error('AI provider not available');
     }
 
-    return this.rateLimitState.requestCount < this.RATE_LIMIT_REQUESTS_PER_MINUTE;
+    return this.provider.complete(messages, options);
   }
 
-  private async enforceRateLimit(): Promise<void> {
-    const now = Date.now();
-    const timeSinceLastRequest = now - this.rateLimitState.lastRequestTime;
-    
-    if (timeSinceLastRequest < this.REQUEST_DELAY) {
-      const waitTime = this.REQUEST_DELAY - timeSinceLastRequest;
-      console.log(`Rate limiting: waiting ${waitTime}ms before API request`);
-      await new Promise(resolve => setTimeout(resolve, waitTime));
+  // Companion reply to the current conversation; falls back to a canned reply when offline
+  async generateCompanionReply(conversation: ChatTurn[]): Promise<string> {
+    if (!this.isInitialized) {
+      await this.initialize();
+    }
+
+    const lastTurn = conversation[conversation.length - 1];
+    const canUseAPI = this.canUseProvider() && lastTurn?.role === 'user';
+
+    if (!canUseAPI) {
+      return this.generateLocalReply();
+    }
+
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), this.CHAT_TIMEOUT);
+
+    try {
+      const reply = await this.requestChatCompletion(
+        [
+          { role: 'system', content: this.COMPANION_SYSTEM_PROMPT },
+          ...conversation.slice(-this.CHAT_HISTORY_LIMIT).map(turn => ({
+            ...turn,
+            content: turn.role === 'user' ? redactText(turn.content).text : turn.content,
+          })),
+        ],
+        { purpose: 'chat', maxTokens: 200, temperature: 0.7, signal: controller.signal }
+      );
+      return reply.trim() || this.generateLocalReply();
+    } catch (error) {
+      console.warn('Companion reply failed, using local fallback:', error);
+      return this.generateLocalReply();
+    } finally {
+      clearTimeout(timeout);
     }
   }
 
-  private updateRateLimitState(): void {
-    this.rateLimitState.lastRequestTime = Date.now();
-    this.rateLimitState.requestCount++;
+  // Offline fallback replies
+  private generateLocalReply(): string {
+    const responses = [
+      "That's interesting! Can you tell me more about how that made you feel?",
+      "I appreciate you sharing that with me. What would you like to explore further?",
+      "Thank you for opening up. How do you think this experience might help you grow?",
+      "I hear you. What's one small thing you could do to take care of yourself right now?",
+      "That sounds meaningful. What's something you're grateful for in this moment?",
+    ];
+    return responses[Math.floor(Math.random() * responses.length)];
   }
 
-  // AI API Analysis (OpenAI) - optimized prompts
+  // What runAIAnalysis would send for this request, or null when it would send nothing
+  async previewAnalysisPrompt(request: AIAnalysisRequest): Promise<AIPromptPreview | null> {
+    if (!this.isInitialized) {
+      await this.initialize();
+    }
+
+    if (!this.canUseProvider() || !this.wantsProvider(request) || !request.entries.some(isShareableEntry)) {
+      return null;
+    }
+    return this.buildAnalysisPrompts(request);
+  }
+
+  // AI API Analysis - optimized prompts, sent in batches
   private async runAIAnalysis(request: AIAnalysisRequest): Promise<AIAnalysisResult> {
-    if (!this.apiKey) {
-      throw new Error('API key not available');
+    if (!this.canUseProvider()) {
+      throw new Error('AI provider not available');
     }
 
-    const prompt = this.buildConsolidatedPrompt(request);
-    
-    // 🔍 DEBUG: Log what we're sending to AI
-    console.group('🤖 AI API Request Debug');
-    console.log('📊 Analysis Type:', request.analysisType);
-    console.log('📝 Total Entries:', request.entries.length);
-    console.log('🔓 Unencrypted Entries:', request.entries.filter(e => typeof e.content === 'string').length);
-    console.log('🔒 Encrypted Entries:', request.entries.filter(e => typeof e.content !== 'string').length);
-    console.log('📏 Prompt Length:', prompt.length, 'characters');
-    console.log('📄 Full Prompt:', prompt);
-    console.log('⏰ Timestamp:', new Date().toISOString());
-    console.groupEnd();
-    
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${this.apiKey}`,
-        'Content-Type': 'application/json',
+    const preview = this.buildAnalysisPrompts(request);
+    if (request.analysisType === 'emotions') {
+      const replies = await this.sendPromptBatches(preview, request.entries, (content, sentEntries) =>
+        this.parseEmotionRefinement(content, sentEntries)
+      );
+      if (replies.length === 0) {
+        throw new Error('No AI analysis response received');
+      }
+      // Private entries, and those in batches that failed, keep their local intensities
+      return this.analyzeEmotionsLocally(request.entries, new Map(replies.flatMap(refinements => Array.from(refinements))));
+    }
+
+    const replies = await this.sendPromptBatches(preview, request.entries, (content, sentEntries) =>
+      this.parseAIResponse(request.analysisType, content, sentEntries) as SentimentAnalysisResult
+    );
+    if (replies.length === 0) {
+      throw new Error('No AI analysis response received');
+    }
+
+    // Private entries, and those in batches that failed, are scored on the device and folded in
+    const aiSentiments = replies.flatMap(reply => reply.data.entrySentiments);
+    const scoredIds = new Set(aiSentiments.map(item => item.entryId));
+    const localSentiments = this.analyzeSentimentLocally(request.entries.filter(entry => !scoredIds.has(entry.id)))
+      .data.entrySentiments;
+    const entrySentiments = [...aiSentiments, ...localSentiments];
+    const sentimentScore = entrySentiments.reduce((sum, entry) => sum + entry.score, 0) / Math.max(1, entrySentiments.length);
+    return {
+      type: 'sentiment',
+      data: {
+        overallSentiment: classifySentiment(sentimentScore),
+        sentimentScore,
+        entrySentiments,
       },
-      body: JSON.stringify({
-        model: 'gpt-3.5-turbo',
-        messages: [
-          {
-            role: 'system',
-            content: 'You are an AI assistant that analyzes journal entries. Provide structured, helpful insights about the user\'s thoughts and emotions. Return only valid JSON responses.'
-          },
-          {
-            role: 'user',
-            content: prompt
-          }
-        ],
-        max_tokens: 800, // Reduced token usage
-        temperature: 0.2, // Lower temperature for more consistent results
-      }),
-    });
+      confidence: 0.9, // High confidence for AI analysis
+      timestamp: new Date(),
+    };
+  }
+
+  // Send the batches in order and parse each reply. A reply that can't be parsed is skipped; a
+  // request that fails stops the rest from being sent, so the replies returned may cover only
+  // some of the entries.
+  private async sendPromptBatches<T>(
+    preview: AIPromptPreview,
+    entries: JournalEntry[],
+    parseReply: (content: string, sentEntries: JournalEntry[]) => T
+  ): Promise<T[]> {
+    const entriesById = new Map(entries.map(entry => [entry.id, entry]));
+    const replies: T[] = [];
+
+    for (const [index, batch] of preview.batches.entries()) {
+      // Counts only: entry text must never end up in logs
+      console.log(
+        `🤖 Sending ${preview.analysisType} analysis of ${batch.sentEntryIds.length} entries to ${preview.provider} ` +
+        `(request ${index + 1} of ${preview.batches.length})`
+      );
+
+      let content: string;
+      try {
+        content = await this.requestAnalysisCompletion(batch.messages);
+      } catch (apiError) {
+        console.warn(`AI API failed, ${preview.batches.length - index} requests were not sent:`, apiError);
+        break;
+      }
 
-    if (!response.ok) {
-      console.error('❌ OpenAI API Error:', response.status, response.statusText);
-      throw new Error(`OpenAI API error: ${response.status}`);
+      try {
+        replies.push(parseReply(content, batch.sentEntryIds.map(id => entriesById.get(id)!)));
+      } catch (parseError) {
+        console.warn('Skipping an AI reply that could not be read:', parseError);
+      }
     }
+    return replies;
+  }
 
-    const data = await response.json();
-    
-    // 🔍 DEBUG: Log API response
-    console.group('🤖 AI API Response Debug');
-    console.log('📊 Analysis Type:', request.analysisType);
-    console.log('✅ Response Status:', response.status);
-    console.log('📄 Response Content:', data.choices[0].message.content);
-    console.log('⏰ Response Time:', new Date().toISOString());
-    console.groupEnd();
-    
-    return this.parseAIResponse(request.analysisType, data.choices[0].message.content, request.entries);
+  // One analysis request, waiting out the provider's rate limit when it says how long to wait
+  private async requestAnalysisCompletion(messages: ChatCompletionMessage[]): Promise<string> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.requestChatCompletion(messages, {
+          purpose: 'analysis',
+          maxTokens: ANALYSIS_MAX_TOKENS,
+          temperature: 0.2, // Lower temperature for more consistent results
+          json: true,
+        });
+      } catch (error) {
+        const retryAfter = error instanceof AIProxyError && error.code === 'rate_limited' ? error.retryAfter : undefined;
+        if (retryAfter === undefined || retryAfter > MAX_RATE_LIMIT_WAIT_SECONDS || attempt >= MAX_RATE_LIMIT_RETRIES) {
+          throw error;
+        }
+        console.log(`⏳ Rate limited, retrying analysis in ${retryAfter}s`);
+        await new Promise(resolve => setTimeout(resolve, retryAfter * 1000));
+      }
+    }
   }
 
   // Local Analysis (fallback)
@@ -289,6 +502,8 @@ export class AIService {
         return this.analyzePatternsLocally(request.entries);
       case 'trends':
         return this.analyzeTrendsLocally(request.entries);
+      case 'emotions':
+        return this.analyzeEmotionsLocally(request.entries);
       default:
         throw new Error(`Unknown analysis type: ${request.analysisType}`);
     }
@@ -296,86 +511,94 @@ export class AIService {
 
   // Enhanced local sentiment analysis
   private analyzeSentimentLocally(entries: JournalEntry[]): SentimentAnalysisResult {
-    const positiveWords = ['happy', 'good', 'great', 'amazing', 'wonderful', 'love', 'excited', 'joy', 'smile', 'laugh', 'grateful', 'blessed', 'proud', 'accomplished', 'peaceful'];
-    const negativeWords = ['sad', 'bad', 'terrible', 'awful', 'hate', 'angry', 'frustrated', 'worried', 'anxious', 'cry', 'depressed', 'stressed', 'overwhelmed', 'disappointed', 'lonely'];
-
     const entrySentiments = entries.map(entry => {
-      const content = typeof entry.content === 'string' ? entry.content.toLowerCase() : '';
-      const positiveCount = positiveWords.filter(word => content.includes(word)).length;
-      const negativeCount = negativeWords.filter(word => content.includes(word)).length;
-      
-      let sentiment: 'positive' | 'negative' | 'neutral';
-      let score: number;
-      
-      if (positiveCount > negativeCount) {
-        sentiment = 'positive';
-        score = Math.min(positiveCount / 10, 1);
-      } else if (negativeCount > positiveCount) {
-        sentiment = 'negative';
-        score = Math.min(-negativeCount / 10, -1);
-      } else {
-        sentiment = 'neutral';
-        score = 0;
-      }
-
-      return {
-        entryId: entry.id,
-        sentiment,
-        score,
-        confidence: Math.abs(score) * 0.8, // Improved confidence for local analysis
-      };
+      const { score, label, confidence } = analyzeSentiment(
+        typeof entry.content === 'string' ? entry.content : '',
+        entry.emojis
+      );
+      return { entryId: entry.id, sentiment: label, score, confidence };
     });
 
-    const overallScore = entrySentiments.reduce((sum, entry) => sum + entry.score, 0) / entries.length;
-    const overallSentiment = overallScore > 0.1 ? 'positive' : overallScore < -0.1 ? 'negative' : 'neutral';
+    // Entries without any sentiment evidence don't pull the average towards neutral
+    const totalConfidence = entrySentiments.reduce((sum, entry) => sum + entry.confidence, 0);
+    const overallScore = totalConfidence > 0
+      ? entrySentiments.reduce((sum, entry) => sum + entry.score * entry.confidence, 0) / totalConfidence
+      : 0;
 
     return {
       type: 'sentiment',
       data: {
-        overallSentiment,
+        overallSentiment: classifySentiment(overallScore),
         sentimentScore: overallScore,
         entrySentiments,
       },
-      confidence: 0.7, // Improved confidence for local analysis
+      confidence: entries.length > 0 ? totalConfidence / entries.length : 0,
       timestamp: new Date(),
     };
   }
 
-  // Enhanced local pattern analysis
-  private analyzePatternsLocally(entries: JournalEntry[]): PatternAnalysisResult {
-    const wordCount = new Map<string, number>();
-    const entryPatterns = new Map<string, Set<string>>();
-    
-    // Common stop words to filter out
-    const stopWords = new Set(['this', 'that', 'with', 'have', 'will', 'been', 'were', 'they', 'them', 'their', 'there', 'when', 'where', 'what', 'would', 'could', 'should', 'about', 'after', 'before', 'during', 'through', 'really', 'think', 'feel', 'just', 'like', 'want', 'need', 'know', 'time', 'today', 'yesterday', 'tomorrow']);
+  // Local emotion intensities per entry, with any AI refinements taking their place, and each
+  // week's mix of emotions
+  private analyzeEmotionsLocally(
+    entries: JournalEntry[],
+    refinements: Map<string, EmotionIntensities> = new Map()
+  ): EmotionAnalysisResult {
+    const entryEmotions = entries.map(entry => {
+      const emotions = refinements.get(entry.id)
+        ?? analyzeEmotions(typeof entry.content === 'string' ? entry.content : '', entry.emojis);
+      return { entryId: entry.id, emotions, dominantEmotion: getDominantEmotion(emotions) };
+    });
 
-    entries.forEach(entry => {
-      const content = typeof entry.content === 'string' ? entry.content.toLowerCase() : '';
-      const words = content.split(/\s+/)
-        .filter(word => word.length > 3 && !stopWords.has(word))
-        .map(word => word.replace(/[^\w]/g, '')) // Remove punctuation
-        .filter(word => word.length > 3);
-      
-      words.forEach(word => {
-        const count = wordCount.get(word) || 0;
-        wordCount.set(word, count + 1);
-        
-        if (!entryPatterns.has(word)) {
-          entryPatterns.set(word, new Set());
-        }
-        entryPatterns.get(word)!.add(entry.id);
+    const weeks = new Map<string, { entryCount: number; totals: EmotionIntensities }>();
+    entries.forEach((entry, index) => {
+      const weekStart = this.getWeekStart(entry.timestamp);
+      const week = weeks.get(weekStart) ?? { entryCount: 0, totals: emptyEmotionIntensities() };
+      week.entryCount++;
+      EMOTIONS.forEach(emotion => {
+        week.totals[emotion] += entryEmotions[index].emotions[emotion];
       });
+      weeks.set(weekStart, week);
     });
 
-    const patterns = Array.from(wordCount.entries())
-      .filter(([word, count]) => count >= 2) // Only words that appear multiple times
-      .sort(([, a], [, b]) => b - a)
-      .slice(0, 10) // Top 10 patterns
-      .map(([word, frequency]) => ({
-        name: word,
-        frequency,
-        entries: Array.from(entryPatterns.get(word) || []),
-        keywords: [word],
+    const weeklyMix = Array.from(weeks.entries())
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([weekStart, { entryCount, totals }]) => {
+        const total = EMOTIONS.reduce((sum, emotion) => sum + totals[emotion], 0);
+        const mix = emptyEmotionIntensities();
+        if (total > 0) {
+          EMOTIONS.forEach(emotion => {
+            mix[emotion] = totals[emotion] / total;
+          });
+        }
+        return { weekStart, entryCount, mix };
+      });
+
+    return {
+      type: 'emotions',
+      data: { entryEmotions, weeklyMix },
+      confidence: refinements.size > 0 ? 0.85 : 0.6,
+      timestamp: new Date(),
+    };
+  }
+
+  // Monday of the entry's week in local time, as YYYY-MM-DD
+  private getWeekStart(date: Date): string {
+    const monday = new Date(date.getFullYear(), date.getMonth(), date.getDate() - ((date.getDay() + 6) % 7));
+    const month = String(monday.getMonth() + 1).padStart(2, '0');
+    const day = String(monday.getDate()).padStart(2, '0');
+    return `${monday.getFullYear()}-${month}-${day}`;
+  }
+
+  // Local theme analysis: entries clustered into topics by their TF-IDF weighted phrases
+  private analyzePatternsLocally(entries: JournalEntry[]): PatternAnalysisResult {
+    const patterns = clusterThemes(this.toThemeDocuments(entries))
+      .slice(0, 10) // Top 10 themes
+      .map(cluster => ({
+        name: cluster.name,
+        frequency: cluster.entryIds.length,
+        entries: cluster.entryIds,
+        examples: cluster.exampleEntryIds,
+        keywords: cluster.keywords,
       }));
 
     return {
@@ -389,6 +612,89 @@ export class AIService {
     };
   }
 
+  private toThemeDocuments(entries: JournalEntry[]): ThemeDocument[] {
+    return entries
+      .filter(entry => typeof entry.content === 'string')
+      .map(entry => ({ id: entry.id, text: entry.content as string }));
+  }
+
+  // Score entries for storage on the entry: locally, or when the user has agreed to send them, with
+  // AI requests in batches that fit the reply (private entries are scored locally). Themes are
+  // weighted against the corpus, normally the whole journal.
+  async scoreEntries(entries: JournalEntry[], corpus: JournalEntry[] = entries, useProvider = false): Promise<EntryAnalysis[]> {
+    if (!this.isInitialized) {
+      await this.initialize();
+    }
+
+    const localSentiment = this.analyzeSentimentLocally(entries);
+    const scores = new Map(localSentiment.data.entrySentiments.map(item => [item.entryId, item.score]));
+
+    const aiScoredIds = new Set<string>();
+    if (useProvider && this.canUseProvider() && entries.some(isShareableEntry)) {
+      const preview = this.buildAnalysisPrompts({ entries, analysisType: 'sentiment' });
+      const replies = await this.sendPromptBatches(preview, entries, (content, sentEntries) =>
+        this.parseAIResponse('sentiment', content, sentEntries) as SentimentAnalysisResult
+      );
+      replies.forEach(reply => reply.data.entrySentiments.forEach(item => {
+        scores.set(item.entryId, item.score);
+        aiScoredIds.add(item.entryId);
+      }));
+    }
+
+    // Entries the AI was asked for but didn't score (rate limited, failed or skipped by the model)
+    // keep a local score without a version, so they stay pending and a later run sends them again
+    const awaitsAI = (entry: JournalEntry) => useProvider && isShareableEntry(entry) && !aiScoredIds.has(entry.id);
+
+    const themes = new Map(this.extractThemes(entries, corpus).map(item => [item.entryId, item]));
+
+    const analysisTimestamp = new Date();
+    return entries.map(entry => ({
+      ...themes.get(entry.id)!,
+      sentimentScore: Math.max(-1, Math.min(1, scores.get(entry.id) ?? 0)),
+      analysisTimestamp,
+      analysisVersion: awaitsAI(entry) ? undefined : SENTIMENT_ANALYSIS_VERSION,
+    }));
+  }
+
+  // Each entry's most distinctive phrases, weighted against the corpus; never leaves the device
+  extractThemes(entries: JournalEntry[], corpus: JournalEntry[] = entries): EntryThemes[] {
+    const corpusIds = new Set(corpus.map(entry => entry.id));
+    const vectors = buildTermVectors(this.toThemeDocuments([...corpus, ...entries.filter(entry => !corpusIds.has(entry.id))]));
+
+    return entries.map(entry => ({
+      entryId: entry.id,
+      themes: topTerms(vectors.get(entry.id) ?? [], ENTRY_THEME_LIMIT),
+      themesVersion: THEME_ANALYSIS_VERSION,
+    }));
+  }
+
+  // Overall sentiment from the scores stored on each entry; nothing is re-analyzed
+  summarizeSentiment(entries: JournalEntry[]): SentimentAnalysisResult {
+    const entrySentiments = entries
+      .filter((entry): entry is JournalEntry & { sentimentScore: number } => typeof entry.sentimentScore === 'number')
+      .map(entry => ({
+        entryId: entry.id,
+        sentiment: classifySentiment(entry.sentimentScore),
+        score: entry.sentimentScore,
+        confidence: Math.abs(entry.sentimentScore),
+      }));
+
+    const sentimentScore = entrySentiments.length > 0
+      ? entrySentiments.reduce((sum, entry) => sum + entry.score, 0) / entrySentiments.length
+      : 0;
+
+    return {
+      type: 'sentiment',
+      data: {
+        overallSentiment: classifySentiment(sentimentScore),
+        sentimentScore,
+        entrySentiments,
+      },
+      confidence: entries.length > 0 ? entrySentiments.length / entries.length : 0,
+      timestamp: new Date(),
+    };
+  }
+
   // Local trend analysis (data aggregation)
   private analyzeTrendsLocally(entries: JournalEntry[]): TrendAnalysisResult {
     // Mood trends
@@ -464,69 +770,120 @@ export class AIService {
   }
 
   // Cache management methods
-  private generateCacheKey(request: AIAnalysisRequest): string {
-    const entryIds = request.entries.map(e => e.id).sort().join(',');
-    const timeRange = request.timeRange ? 
-      `${request.timeRange.start.toISOString()}-${request.timeRange.end.toISOString()}` : 
-      'all';
-    return `${request.analysisType}-${timeRange}-${entryIds}`;
+  // Analysis type plus a hash of everything the result depends on: each entry's content and
+  // metadata (privacy flag and stored analysis included), the time range, the provider and
+  // the analysis version. Any edit changes the hash, so stale results are never served.
+  private async generateCacheKey(request: AIAnalysisRequest): Promise<string> {
+    const entries = [...request.entries]
+      .sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0))
+      .map(entry => [
+        entry.id,
+        typeof entry.content === 'string' ? entry.content : null,
+        entry.timestamp.toISOString(),
+        entry.emojis,
+        entry.tags ?? [],
+        entry.mood ?? null,
+        entry.aiPrivate ?? false,
+        entry.sentimentScore ?? null,
+        entry.themes ?? [],
+        entry.analysisVersion ?? null,
+        entry.themesVersion ?? null,
+      ]);
+    const timeRange = request.timeRange
+      ? [request.timeRange.start.toISOString(), request.timeRange.end.toISOString()]
+      : 'all';
+    const provider = this.canUseProvider() ? `${this.providerConfig.type}:${this.providerConfig.model}` : 'local';
+
+    const refined = request.analysisType === 'emotions' && request.refineWithAI === true;
+    const input = JSON.stringify([ANALYSIS_CACHE_VERSION, request.analysisType, refined, timeRange, provider, entries]);
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(input));
+    const hash = Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+    return `${request.analysisType}:${hash}`;
   }
 
-  private getCachedResult(cacheKey: string, currentEntryCount: number): AIAnalysisResult | null {
-    const cached = this.cache.get(cacheKey);
-    if (!cached) return null;
-
-    // Invalidate cache if new entries were added
-    if (cached.entryCount !== currentEntryCount) {
-      this.cache.delete(cacheKey);
-      return null;
-    }
-
-    // Cache is valid for 24 hours
-    const isExpired = Date.now() - cached.timestamp.getTime() > 24 * 60 * 60 * 1000;
-    if (isExpired) {
-      this.cache.delete(cacheKey);
+  // A cache that can't be read is treated as a miss
+  private async getCachedResult(cacheKey: string): Promise<AIAnalysisResult | null> {
+    if (!this.cacheStore) return null;
+    try {
+      return await this.cacheStore.get(cacheKey);
+    } catch (error) {
+      console.warn('Failed to read cached analysis:', error);
       return null;
     }
-
-    return cached.result;
-  }
-
-  private cacheResult(cacheKey: string, result: AIAnalysisResult, entryCount: number): void {
-    this.cache.set(cacheKey, {
-      result,
-      timestamp: new Date(),
-      entryCount,
-    });
   }
 
-  // Clear cache (call when new entries are added)
-  clearCache(): void {
-    this.cache.clear();
-    console.log('AI analysis cache cleared');
+  private async cacheResult(cacheKey: string, analysisType: AnalysisType, result: AIAnalysisResult): Promise<void> {
+    if (!this.cacheStore) return;
+    try {
+      await this.cacheStore.set(cacheKey, analysisType, result);
+    } catch (error) {
+      console.warn('Failed to cache analysis result:', error);
+    }
   }
 
-  // Simplified prompt building - only for sentiment analysis (AI-only)
-  private buildConsolidatedPrompt(request: AIAnalysisRequest): string {
-    // Only sentiment analysis uses AI
-    if (request.analysisType !== 'sentiment') {
+  // Prompts for sentiment and emotion refinement (AI-only), split into batches that fit both the
+  // reply budget and the prompt length limit. Entries are numbered from 1 within each batch.
+  private buildAnalysisPrompts(request: AIAnalysisRequest): AIPromptPreview {
+    // Only sentiment analysis and emotion refinement use AI
+    if (!this.wantsProvider(request)) {
       throw new Error(`AI analysis not supported for type: ${request.analysisType}`);
     }
 
-    // Filter and consolidate only unencrypted content
-    const unencryptedEntries = request.entries
-      .map((entry, index) => ({ index, content: entry.content }))
-      .filter(entry => typeof entry.content === 'string' && entry.content.trim() !== '');
-    
-    if (unencryptedEntries.length === 0) {
-      throw new Error('No unencrypted content available for AI analysis');
+    // Private and still-encrypted entries never leave the device
+    const sentEntries = request.entries.filter(isShareableEntry);
+    if (sentEntries.length === 0) {
+      throw new Error('No shareable content available for AI analysis');
     }
 
-    // Create consolidated text feed
-    const consolidatedText = unencryptedEntries
-      .map(entry => `Entry ${entry.index + 1}: ${entry.content}`)
-      .join('\n\n');
+    const buildPrompt = (consolidatedText: string) => request.analysisType === 'emotions'
+      ? this.buildEmotionPrompt(consolidatedText)
+      : this.buildSentimentPrompt(consolidatedText);
+    const batchSize = request.analysisType === 'emotions' ? EMOTION_BATCH_SIZE : SENTIMENT_BATCH_SIZE;
+    const maxTextLength = MAX_PROMPT_LENGTH - buildPrompt('').length;
+    const maxEntryLength = maxTextLength - ENTRY_LABEL_RESERVE;
+
+    let redactions = emptyRedactionCounts();
+    const batches: Array<{ entries: JournalEntry[]; texts: string[]; length: number }> = [];
+    for (const entry of sentEntries) {
+      const { text, counts } = redactText(entry.content as string);
+      redactions = addRedactionCounts(redactions, counts);
+      const sentText = text.length > maxEntryLength ? `${text.slice(0, maxEntryLength - 1)}…` : text;
+
+      let batch = batches[batches.length - 1];
+      if (
+        !batch ||
+        batch.entries.length >= batchSize ||
+        batch.length + sentText.length + ENTRY_LABEL_RESERVE > maxTextLength
+      ) {
+        batch = { entries: [], texts: [], length: 0 };
+        batches.push(batch);
+      }
+      batch.entries.push(entry);
+      batch.texts.push(sentText);
+      batch.length += sentText.length + ENTRY_LABEL_RESERVE;
+    }
 
+    return {
+      analysisType: request.analysisType,
+      provider: this.providerConfig.type,
+      model: this.providerConfig.model,
+      batches: batches.map(batch => ({
+        messages: [
+          { role: 'system', content: ANALYSIS_SYSTEM_PROMPT },
+          {
+            role: 'user',
+            content: buildPrompt(batch.texts.map((text, index) => `Entry ${index + 1}: ${text}`).join('\n\n')),
+          },
+        ],
+        sentEntryIds: batch.entries.map(entry => entry.id),
+      })),
+      sentEntryIds: sentEntries.map(entry => entry.id),
+      privateEntryCount: request.entries.filter(entry => entry.aiPrivate).length,
+      redactions,
+    };
+  }
+
+  private buildSentimentPrompt(consolidatedText: string): string {
     return `Analyze the sentiment of these journal entries. Provide an overall sentiment analysis and per-entry analysis.
 
 Journal Entries:
@@ -538,7 +895,7 @@ Respond with JSON:
   "sentimentScore": -1 to 1,
   "entrySentiments": [
     {
-      "entryIndex": number,
+      "entryIndex": number (the N of "Entry N"),
       "sentiment": "positive|negative|neutral", 
       "score": -1 to 1,
       "confidence": 0 to 1
@@ -547,6 +904,47 @@ Respond with JSON:
 }`;
   }
 
+  private buildEmotionPrompt(consolidatedText: string): string {
+    return `Rate how strongly each journal entry expresses each of these emotions: ${EMOTIONS.join(', ')}.
+
+Journal Entries:
+${consolidatedText}
+
+Respond with JSON:
+{
+  "entryEmotions": [
+    {
+      "entryIndex": number (the N of "Entry N"),
+      "emotions": { ${EMOTIONS.map(emotion => `"${emotion}": 0 to 1`).join(', ')} }
+    }
+  ]
+}`;
+  }
+
+  // Refined intensities by entry ID; unknown emotions are dropped and values clamped to 0-1
+  private parseEmotionRefinement(response: string, entries: JournalEntry[]): Map<string, EmotionIntensities> {
+    try {
+      const data = JSON.parse(response);
+      const refinements = new Map<string, EmotionIntensities>();
+
+      for (const item of data.entryEmotions as Array<{ entryIndex: number; emotions: Record<string, unknown> }>) {
+        const entry = entries[item.entryIndex - 1];
+        if (!entry || typeof item.emotions !== 'object' || item.emotions === null) continue;
+
+        const emotions = emptyEmotionIntensities();
+        EMOTIONS.forEach(emotion => {
+          const value = Number(item.emotions[emotion]);
+          emotions[emotion] = Number.isFinite(value) ? Math.max(0, Math.min(1, value)) : 0;
+        });
+        refinements.set(entry.id, emotions);
+      }
+      return refinements;
+    } catch (error) {
+      console.error('Failed to parse AI response:', error);
+      throw new Error('Failed to parse AI analysis response');
+    }
+  }
+
   // Updated response parser to handle optimized responses
   private parseAIResponse(analysisType: AnalysisType, response: string, entries: JournalEntry[]): AIAnalysisResult {
     try {
@@ -557,19 +955,26 @@ Respond with JSON:
         throw new Error(`AI response parsing not supported for type: ${analysisType}`);
       }
 
-      // Map entry indices back to IDs
-      const entrySentiments = data.entrySentiments.map((item: { entryIndex: number; sentiment: string; score: number; confidence: number }) => ({
-        entryId: entries[item.entryIndex]?.id || `entry-${item.entryIndex}`,
-        sentiment: item.sentiment,
-        score: item.score,
-        confidence: item.confidence,
-      }));
+      // Map "Entry N" numbers back to the IDs of the entries that were sent; items without a
+      // numeric score are dropped so they never become NaN
+      const items = data.entrySentiments as Array<{ entryIndex: number; sentiment: SentimentLabel; score: unknown; confidence: unknown }>;
+      const entrySentiments = items
+        .filter((item): item is typeof item & { score: number } => typeof item.score === 'number' && Number.isFinite(item.score))
+        .map(item => ({
+          entryId: entries[item.entryIndex - 1]?.id || `entry-${item.entryIndex}`,
+          sentiment: item.sentiment,
+          score: Math.max(-1, Math.min(1, item.score)),
+          confidence: typeof item.confidence === 'number' && Number.isFinite(item.confidence) ? item.confidence : 0.5,
+        }));
+      const sentimentScore = typeof data.sentimentScore === 'number' && Number.isFinite(data.sentimentScore)
+        ? Math.max(-1, Math.min(1, data.sentimentScore))
+        : entrySentiments.reduce((sum, item) => sum + item.score, 0) / Math.max(1, entrySentiments.length);
 
       return {
         type: 'sentiment',
         data: {
           overallSentiment: data.overallSentiment,
-          sentimentScore: data.sentimentScore,
+          sentimentScore,
           entrySentiments,
         },
         confidence: 0.9, // High confidence for AI analysis
@@ -0,0 +1,110 @@
+// Auto-lock: drop the encryption key after inactivity or when the tab is hidden
+import { encryptionManager } from './encryption';
+
+export interface AutoLockSettings {
+  idleMinutes: number; // 0 disables the idle timer
+  lockOnHide: boolean;
+}
+
+export const DEFAULT_AUTO_LOCK_SETTINGS: AutoLockSettings = {
+  idleMinutes: 5,
+  lockOnHide: true,
+};
+
+export function isAutoLockSettings(value: unknown): value is AutoLockSettings {
+  if (typeof value !== 'object' || value === null) return false;
+  const { idleMinutes, lockOnHide } = value as Record<string, unknown>;
+  return typeof idleMinutes === 'number' && idleMinutes >= 0 && typeof lockOnHide === 'boolean';
+}
+
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown', 'scroll', 'touchstart'] as const;
+
+// Runs while the key is still loaded, e.g. to seal unsaved work before the journal locks
+export type BeforeLockHandler = () => Promise<void> | void;
+
+export class AutoLockManager {
+  private settings: AutoLockSettings = DEFAULT_AUTO_LOCK_SETTINGS;
+  private idleTimer: ReturnType<typeof setTimeout> | null = null;
+  private started = false;
+  private beforeLockHandlers = new Set<BeforeLockHandler>();
+  private locking: Promise<void> | null = null;
+
+  configure(settings: AutoLockSettings): void {
+    this.settings = { ...settings };
+    this.resetIdleTimer();
+  }
+
+  getSettings(): AutoLockSettings {
+    return { ...this.settings };
+  }
+
+  // Attach activity and visibility listeners; returns a cleanup function
+  start(): () => void {
+    if (this.started) return () => {};
+    this.started = true;
+
+    const handleActivity = () => this.resetIdleTimer();
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden' && this.settings.lockOnHide) {
+        this.lockNow();
+      }
+    };
+    const unsubscribe = encryptionManager.onLockStateChange(() => this.resetIdleTimer());
+
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, handleActivity, { passive: true, capture: true }));
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    this.resetIdleTimer();
+
+    return () => {
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, handleActivity, { capture: true }));
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      unsubscribe();
+      this.clearIdleTimer();
+      this.started = false;
+    };
+  }
+
+  // Subscribe to the moment before a lock; returns an unsubscribe function
+  onBeforeLock(handler: BeforeLockHandler): () => void {
+    this.beforeLockHandlers.add(handler);
+    return () => {
+      this.beforeLockHandlers.delete(handler);
+    };
+  }
+
+  // Let pages save what they hold, then forget the key; cached analysis stays encrypted in the database
+  lockNow(): Promise<void> {
+    this.clearIdleTimer();
+    if (!encryptionManager.isInitialized()) return Promise.resolve();
+
+    this.locking ??= (async () => {
+      const results = await Promise.allSettled(Array.from(this.beforeLockHandlers, handler => handler()));
+      results.forEach(result => {
+        if (result.status === 'rejected') console.error('Failed to save before locking:', result.reason);
+      });
+
+      encryptionManager.clear();
+      console.log('🔒 Journal locked');
+    })().finally(() => {
+      this.locking = null;
+    });
+    return this.locking;
+  }
+
+  private resetIdleTimer(): void {
+    this.clearIdleTimer();
+    if (!this.started || this.settings.idleMinutes <= 0 || !encryptionManager.isInitialized()) return;
+
+    this.idleTimer = setTimeout(() => this.lockNow(), this.settings.idleMinutes * 60 * 1000);
+  }
+
+  private clearIdleTimer(): void {
+    if (this.idleTimer) {
+      clearTimeout(this.idleTimer);
+      this.idleTimer = null;
+    }
+  }
+}
+
+// Singleton instance
+export const autoLockManager = new AutoLockManager();
@@ -0,0 +1,321 @@
+// Versioned backup files: passphrase-encrypted, with a manifest and a MAC over the payload
+import { ChatMessage, ChatSession, JournalEntry } from './database';
+import { WrongPasswordError, createKdfParams } from './encryption';
+
+export const BACKUP_FORMAT = 'vibe-journal-backup';
+export const BACKUP_VERSION = 1;
+
+// Refuse files that would make us spin on key derivation
+const MAX_BACKUP_ITERATIONS = 10000000;
+const KEY_CHECK_LABEL = 'vibe-journal-backup-key-check';
+
+// Readable journal contents, as returned by StorageService.exportData()
+export interface BackupData {
+  entries: JournalEntry[];
+  sessions: ChatSession[];
+  messages: ChatMessage[];
+  settings: Record<string, unknown>;
+}
+
+export interface BackupManifest {
+  createdAt: string; // ISO 8601
+  counts: {
+    entries: number;
+    sessions: number;
+    messages: number;
+    settings: number;
+  };
+}
+
+// The file as written to disk; binary fields are base64
+export interface EncryptedBackup {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  manifest: BackupManifest;
+  kdf: {
+    algorithm: 'PBKDF2-SHA-256';
+    iterations: number;
+    salt: string;
+  };
+  iv: string;
+  keyCheck: string; // Tells a wrong passphrase apart from a tampered file
+  payload: string;
+  mac: string; // HMAC-SHA-256 over everything above
+}
+
+export type BackupErrorReason = 'format' | 'version' | 'integrity';
+
+export class BackupError extends Error {
+  constructor(message: string, public readonly reason: BackupErrorReason) {
+    super(message);
+    this.name = 'BackupError';
+  }
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function fromBase64(value: string): Uint8Array {
+  try {
+    return Uint8Array.from(atob(value), char => char.charCodeAt(0));
+  } catch {
+    throw new BackupError('Backup file is damaged', 'format');
+  }
+}
+
+// One PBKDF2 run yields both the payload key and the MAC key
+async function deriveBackupKeys(
+  passphrase: string,
+  salt: Uint8Array,
+  iterations: number
+): Promise<{ encryptionKey: CryptoKey; macKey: CryptoKey }> {
+  const keyMaterial = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveBits']
+  );
+
+  const bits = new Uint8Array(await crypto.subtle.deriveBits(
+    {
+      name: 'PBKDF2',
+      salt: salt as unknown as ArrayBuffer,
+      iterations,
+      hash: 'SHA-256',
+    },
+    keyMaterial,
+    512
+  ));
+
+  const [encryptionKey, macKey] = await Promise.all([
+    crypto.subtle.importKey('raw', bits.slice(0, 32), 'AES-GCM', false, ['encrypt', 'decrypt']),
+    crypto.subtle.importKey('raw', bits.slice(32), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify']),
+  ]);
+  return { encryptionKey, macKey };
+}
+
+// Bytes covered by the MAC: every field of the file except the MAC itself
+function authenticatedBytes(backup: Omit<EncryptedBackup, 'mac'>) {
+  return new TextEncoder().encode([
+    backup.format,
+    backup.version,
+    JSON.stringify(backup.manifest),
+    JSON.stringify(backup.kdf),
+    backup.iv,
+    backup.keyCheck,
+    backup.payload,
+  ].join('\n'));
+}
+
+// Dates and byte arrays don't survive plain JSON, so they are tagged on the way out
+function serializePayload(data: BackupData): string {
+  return JSON.stringify(data, function (key, value) {
+    const raw = (this as Record<string, unknown>)[key];
+    if (raw instanceof Date) return { $date: raw.toISOString() };
+    if (raw instanceof Uint8Array) return { $bytes: toBase64(raw) };
+    if (raw instanceof ArrayBuffer) return { $bytes: toBase64(new Uint8Array(raw)) };
+    return value;
+  });
+}
+
+function parsePayload(text: string): unknown {
+  return JSON.parse(text, (_key, value) => {
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+      if (typeof value.$date === 'string') return new Date(value.$date);
+      if (typeof value.$bytes === 'string') return fromBase64(value.$bytes);
+    }
+    return value;
+  });
+}
+
+export function createManifest(data: BackupData): BackupManifest {
+  return {
+    createdAt: new Date().toISOString(),
+    counts: {
+      entries: data.entries.length,
+      sessions: data.sessions.length,
+      messages: data.messages.length,
+      settings: Object.keys(data.settings).length,
+    },
+  };
+}
+
+export async function createEncryptedBackup(
+  data: BackupData,
+  passphrase: string,
+  iterations: number
+): Promise<EncryptedBackup> {
+  const { salt } = createKdfParams(iterations);
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const { encryptionKey, macKey } = await deriveBackupKeys(passphrase, salt, iterations);
+
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv: iv as unknown as ArrayBuffer },
+    encryptionKey,
+    new TextEncoder().encode(serializePayload(data))
+  );
+  const keyCheck = await crypto.subtle.sign('HMAC', macKey, new TextEncoder().encode(KEY_CHECK_LABEL));
+
+  const unsigned: Omit<EncryptedBackup, 'mac'> = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    manifest: createManifest(data),
+    kdf: { algorithm: 'PBKDF2-SHA-256', iterations, salt: toBase64(salt) },
+    iv: toBase64(iv),
+    keyCheck: toBase64(new Uint8Array(keyCheck)),
+    payload: toBase64(new Uint8Array(ciphertext)),
+  };
+  const mac = await crypto.subtle.sign('HMAC', macKey, authenticatedBytes(unsigned));
+
+  return { ...unsigned, mac: toBase64(new Uint8Array(mac)) };
+}
+
+export function isEncryptedBackup(value: unknown): value is EncryptedBackup {
+  return typeof value === 'object' && value !== null && (value as Record<string, unknown>).format === BACKUP_FORMAT;
+}
+
+// Parse a backup file's text; truncated files usually fail here
+export function parseBackupFile(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new BackupError('Backup file is incomplete or not valid JSON', 'format');
+  }
+}
+
+function checkBackupShape(backup: EncryptedBackup): void {
+  if (backup.version !== BACKUP_VERSION) {
+    throw new BackupError(`Backup version ${backup.version} is not supported`, 'version');
+  }
+
+  const { manifest, kdf } = backup;
+  const fieldsPresent =
+    typeof manifest?.createdAt === 'string' &&
+    typeof manifest.counts === 'object' && manifest.counts !== null &&
+    kdf?.algorithm === 'PBKDF2-SHA-256' &&
+    typeof kdf.salt === 'string' &&
+    Number.isInteger(kdf.iterations) && kdf.iterations > 0 && kdf.iterations <= MAX_BACKUP_ITERATIONS &&
+    [backup.iv, backup.keyCheck, backup.payload, backup.mac].every(field => typeof field === 'string');
+
+  if (!fieldsPresent) {
+    throw new BackupError('Backup file is damaged', 'format');
+  }
+}
+
+// Verify and decrypt a backup; throws WrongPasswordError or BackupError without returning partial data
+export async function openEncryptedBackup(backup: EncryptedBackup, passphrase: string): Promise<BackupData> {
+  checkBackupShape(backup);
+
+  const { encryptionKey, macKey } = await deriveBackupKeys(passphrase, fromBase64(backup.kdf.salt), backup.kdf.iterations);
+
+  const passphraseMatches = await crypto.subtle.verify(
+    'HMAC',
+    macKey,
+    fromBase64(backup.keyCheck) as unknown as ArrayBuffer,
+    new TextEncoder().encode(KEY_CHECK_LABEL)
+  );
+  if (!passphraseMatches) {
+    throw new WrongPasswordError('Incorrect backup passphrase');
+  }
+
+  const { mac, ...unsigned } = backup;
+  const intact = await crypto.subtle.verify(
+    'HMAC',
+    macKey,
+    fromBase64(mac) as unknown as ArrayBuffer,
+    authenticatedBytes(unsigned)
+  );
+  if (!intact) {
+    throw new BackupError('Backup file has been modified or is incomplete', 'integrity');
+  }
+
+  let data: BackupData;
+  try {
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: fromBase64(backup.iv) as unknown as ArrayBuffer },
+      encryptionKey,
+      fromBase64(backup.payload) as unknown as ArrayBuffer
+    );
+    data = normalizeBackupData(parsePayload(new TextDecoder().decode(plaintext)));
+  } catch (error) {
+    if (error instanceof BackupError) throw error;
+    throw new BackupError('Backup payload could not be decrypted', 'integrity');
+  }
+
+  const counts = createManifest(data).counts;
+  const expected = backup.manifest.counts;
+  if (
+    counts.entries !== expected.entries ||
+    counts.sessions !== expected.sessions ||
+    counts.messages !== expected.messages ||
+    counts.settings !== expected.settings
+  ) {
+    throw new BackupError('Backup contents do not match its manifest', 'integrity');
+  }
+
+  return data;
+}
+
+const toDate = (value: unknown): Date | undefined =>
+  value instanceof Date ? value : typeof value === 'string' || typeof value === 'number' ? new Date(value) : undefined;
+
+const isValidDate = (value: Date | undefined): value is Date => value !== undefined && !Number.isNaN(value.getTime());
+
+// Check the shape of imported data and restore dates that plain JSON turned into strings
+export function normalizeBackupData(value: unknown): BackupData {
+  if (typeof value !== 'object' || value === null) {
+    throw new BackupError('Backup does not contain journal data', 'format');
+  }
+
+  const { entries = [], sessions = [], messages = [], settings = {} } = value as Record<string, unknown>;
+  if (!Array.isArray(entries) || !Array.isArray(sessions) || !Array.isArray(messages) ||
+      typeof settings !== 'object' || settings === null || Array.isArray(settings)) {
+    throw new BackupError('Backup does not contain journal data', 'format');
+  }
+
+  const normalizedEntries = entries.map((entry: JournalEntry) => {
+    const timestamp = toDate(entry?.timestamp);
+    if (typeof entry?.id !== 'string' || typeof entry.content !== 'string' || !isValidDate(timestamp)) {
+      throw new BackupError('Backup contains an invalid or still encrypted journal entry', 'format');
+    }
+    return {
+      ...entry,
+      encrypted: false,
+      emojis: Array.isArray(entry.emojis) ? entry.emojis : [],
+      timestamp,
+      createdAt: toDate(entry.createdAt) ?? timestamp,
+      updatedAt: toDate(entry.updatedAt) ?? timestamp,
+      analysisTimestamp: toDate(entry.analysisTimestamp),
+    };
+  });
+
+  const normalizedSessions = sessions.map((session: ChatSession) => {
+    const startTime = toDate(session?.startTime);
+    if (typeof session?.id !== 'string' || !Array.isArray(session.entryIds) || session.encrypted || !isValidDate(startTime)) {
+      throw new BackupError('Backup contains an invalid or still encrypted chat session', 'format');
+    }
+    return { ...session, startTime, endTime: toDate(session.endTime) };
+  });
+
+  const normalizedMessages = messages.map((message: ChatMessage) => {
+    const timestamp = toDate(message?.timestamp);
+    if (typeof message?.id !== 'string' || typeof message.sessionId !== 'string' ||
+        typeof message.content !== 'string' || !isValidDate(timestamp)) {
+      throw new BackupError('Backup contains an invalid or still encrypted chat message', 'format');
+    }
+    return { ...message, encrypted: false, iv: undefined, timestamp };
+  });
+
+  return {
+    entries: normalizedEntries,
+    sessions: normalizedSessions,
+    messages: normalizedMessages,
+    settings: settings as Record<string, unknown>,
+  };
+}
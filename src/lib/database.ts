@@ -1,4 +1,14 @@
 // IndexedDB database configuration and setup
+import {
+  LATEST_VERSION,
+  MIGRATIONS,
+  MigrationError,
+  MigrationProgress,
+  MigrationProgressListener,
+  runMigrations,
+} from './migrations';
+import { StorageBackend, StoreTransaction, TransactionMode } from './storageBackend';
+
 export interface JournalEntry {
   id: string;
   content: string | ArrayBuffer;
@@ -8,13 +18,22 @@ export interface JournalEntry {
   iv?: Uint8Array;
   tags?: string[];
   mood?: string;
+  aiPrivate?: boolean; // Never sent to an AI provider; local analysis still uses it
   createdAt: Date;
   updatedAt: Date;
   // AI Analysis fields
   sentimentScore?: number;
   themes?: string[];
   analysisTimestamp?: Date;
-  analysisVersion?: string;
+  analysisVersion?: string; // Sentiment version
+  themesVersion?: string;
+  // Storage fields
+  sortKey?: number; // Page order: the timestamp in ms, or an opaque sequence number once metadata is sealed
+  metadataEncrypted?: boolean; // Metadata lives in the ciphertext alongside the content
+  tagTokens?: string[]; // Blind index of the sealed tags (keyed HMAC tokens)
+  wordTokens?: string[]; // Blind index of the words in encrypted content and tags
+  sealedAnalysis?: ArrayBuffer; // Analysis fields, encrypted alongside the content when metadata isn't sealed
+  analysisIv?: Uint8Array;
 }
 
 export interface ChatSession {
@@ -23,59 +42,247 @@ export interface ChatSession {
   startTime: Date;
   endTime?: Date;
   summary?: string;
+  // Storage fields: the summary, and with sealed metadata the times, are kept in `sealedData`
+  encrypted?: boolean;
+  metadataEncrypted?: boolean;
+  sealedData?: ArrayBuffer;
+  iv?: Uint8Array;
+}
+
+// A single turn of a chat transcript, user or companion
+export interface ChatMessage {
+  id: string;
+  sessionId: string;
+  sequence: number; // Position within the session's transcript
+  type: 'ai' | 'user';
+  content: string | ArrayBuffer;
+  encrypted: boolean;
+  iv?: Uint8Array;
+  emojis?: string[];
+  entryId?: string; // JournalEntry saved from this message, if any
+  timestamp: Date;
+}
+
+// A stored analysis result; `result` is JSON, encrypted like entries whenever a key is loaded
+export interface CachedAnalysis {
+  key: string; // Analysis type plus a hash of its inputs (blinded while a key is loaded)
+  analysisType: string;
+  result: string | ArrayBuffer;
+  encrypted: boolean;
+  iv?: Uint8Array;
+  createdAt: Date;
 }
 
 const DB_NAME = 'VibeJournalDB';
-const DB_VERSION = 1;
+// Schema version is the version of the newest migration (see migrations.ts)
 
 // Database stores
 export const STORES = {
   ENTRIES: 'journalEntries',
   SESSIONS: 'chatSessions',
   SETTINGS: 'userSettings',
+  MESSAGES: 'chatMessages',
+  ANALYSIS_CACHE: 'analysisCache',
 } as const;
 
-export class DatabaseManager {
+// Position after the last entry of a page, newest first by sort key (ties broken by id)
+export interface EntryPageCursor {
+  sortKey: number;
+  id: string;
+}
+
+export interface EntryPage {
+  entries: JournalEntry[];
+  nextCursor: EntryPageCursor | null;
+}
+
+class IndexedDBStoreTransaction implements StoreTransaction {
+  constructor(private readonly transaction: IDBTransaction) {}
+
+  private request<T>(request: IDBRequest<T>, action: string, storeName: string): Promise<T> {
+    return new Promise((resolve, reject) => {
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(new Error(`Failed to ${action} ${storeName}`));
+    });
+  }
+
+  async get<T>(storeName: string, key: string): Promise<T | undefined> {
+    const store = this.transaction.objectStore(storeName);
+    return this.request<T | undefined>(store.get(key), 'get data from', storeName);
+  }
+
+  async getAll<T>(storeName: string): Promise<T[]> {
+    const store = this.transaction.objectStore(storeName);
+    return this.request<T[]>(store.getAll(), 'get all data from', storeName);
+  }
+
+  async add<T>(storeName: string, data: T): Promise<void> {
+    const store = this.transaction.objectStore(storeName);
+    await this.request(store.add(data), 'add data to', storeName);
+  }
+
+  async put<T>(storeName: string, data: T): Promise<void> {
+    const store = this.transaction.objectStore(storeName);
+    await this.request(store.put(data), 'update data in', storeName);
+  }
+
+  async delete(storeName: string, key: string): Promise<void> {
+    const store = this.transaction.objectStore(storeName);
+    await this.request(store.delete(key), 'delete data from', storeName);
+  }
+
+  async clear(storeName: string): Promise<void> {
+    const store = this.transaction.objectStore(storeName);
+    await this.request(store.clear(), 'clear', storeName);
+  }
+
+  async getAllByIndex<T>(storeName: string, indexName: string, key: IDBValidKey): Promise<T[]> {
+    const index = this.transaction.objectStore(storeName).index(indexName);
+    return this.request<T[]>(index.getAll(key), `query ${indexName} on`, storeName);
+  }
+
+  async getKeysByIndex(storeName: string, indexName: string, key: IDBValidKey): Promise<string[]> {
+    const index = this.transaction.objectStore(storeName).index(indexName);
+    const keys = await this.request(index.getAllKeys(key), `query ${indexName} on`, storeName);
+    return keys.map(String);
+  }
+}
+
+// IndexedDB implementation of the storage backend used in the browser
+export class DatabaseManager implements StorageBackend {
   private db: IDBDatabase | null = null;
+  private opening: Promise<void> | null = null;
+  private migrationListeners = new Set<MigrationProgressListener>();
+  private lastMigrationProgress: MigrationProgress | null = null;
 
   async init(): Promise<void> {
+    if (this.db) return;
+
+    // Several components initialize storage on mount; share one open request
+    if (!this.opening) {
+      this.opening = this.open().finally(() => {
+        this.opening = null;
+      });
+    }
+    return this.opening;
+  }
+
+  private open(): Promise<void> {
     return new Promise((resolve, reject) => {
-      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      const request = indexedDB.open(DB_NAME, LATEST_VERSION);
+      let migrationFailure: MigrationError | null = null;
+      let upgrade: { fromVersion: number; total: number } | null = null;
 
       request.onerror = () => {
+        if (migrationFailure) {
+          this.reportMigrationProgress({
+            status: 'failed',
+            fromVersion: upgrade?.fromVersion ?? 0,
+            toVersion: LATEST_VERSION,
+            currentVersion: migrationFailure.version,
+            completed: 0,
+            total: upgrade?.total ?? 0,
+            error: migrationFailure,
+          });
+          reject(migrationFailure);
+          return;
+        }
         reject(new Error('Failed to open database'));
       };
 
+      request.onblocked = () => {
+        // Another tab still holds an older version open
+        this.reportMigrationProgress({
+          status: 'blocked',
+          fromVersion: upgrade?.fromVersion ?? 0,
+          toVersion: LATEST_VERSION,
+          currentVersion: upgrade?.fromVersion ?? 0,
+          completed: 0,
+          total: upgrade?.total ?? 0,
+        });
+      };
+
       request.onsuccess = () => {
-        this.db = request.result;
+        const db = request.result;
+
+        // Let newer versions opened in other tabs upgrade instead of being blocked by us
+        db.onversionchange = () => {
+          db.close();
+          this.db = null;
+        };
+
+        this.db = db;
+        if (upgrade) {
+          this.reportMigrationProgress({
+            status: 'completed',
+            fromVersion: upgrade.fromVersion,
+            toVersion: LATEST_VERSION,
+            currentVersion: LATEST_VERSION,
+            completed: upgrade.total,
+            total: upgrade.total,
+          });
+        }
         resolve();
       };
 
       request.onupgradeneeded = (event) => {
-        const db = (event.target as IDBOpenDBRequest).result;
-        
-        // Create journal entries store
-        if (!db.objectStoreNames.contains(STORES.ENTRIES)) {
-          const entriesStore = db.createObjectStore(STORES.ENTRIES, { keyPath: 'id' });
-          entriesStore.createIndex('timestamp', 'timestamp', { unique: false });
-          entriesStore.createIndex('createdAt', 'createdAt', { unique: false });
-          entriesStore.createIndex('tags', 'tags', { unique: false, multiEntry: true });
-        }
+        const db = request.result;
+        const transaction = request.transaction!;
+        const fromVersion = event.oldVersion;
+        upgrade = {
+          fromVersion,
+          total: MIGRATIONS.filter(migration => migration.version > fromVersion).length,
+        };
+
+        console.log(`Upgrading database from version ${fromVersion} to ${LATEST_VERSION}`);
+
+        runMigrations(
+          { db, transaction, oldVersion: fromVersion },
+          (progress) => this.reportMigrationProgress(progress)
+        ).catch((error: MigrationError) => {
+          console.error('Database migration failed:', error);
+          migrationFailure = error;
+          // Aborting rolls the whole upgrade back to the version on disk
+          try {
+            transaction.abort();
+          } catch {
+            // Transaction already finished
+          }
+        });
+      };
+    });
+  }
 
-        // Create chat sessions store
-        if (!db.objectStoreNames.contains(STORES.SESSIONS)) {
-          const sessionsStore = db.createObjectStore(STORES.SESSIONS, { keyPath: 'id' });
-          sessionsStore.createIndex('startTime', 'startTime', { unique: false });
-        }
+  // Close our connection and delete the database file. Other tabs close theirs on
+  // versionchange, so the delete is only held up until they have done so.
+  async destroy(): Promise<void> {
+    await this.opening?.catch(() => undefined);
+    this.db?.close();
+    this.db = null;
 
-        // Create user settings store
-        if (!db.objectStoreNames.contains(STORES.SETTINGS)) {
-          db.createObjectStore(STORES.SETTINGS, { keyPath: 'key' });
-        }
-      };
+    await new Promise<void>((resolve, reject) => {
+      const request = indexedDB.deleteDatabase(DB_NAME);
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(new Error('Failed to delete database'));
     });
   }
 
+  // Subscribe to migration progress; the latest state is replayed to new listeners
+  onMigrationProgress(listener: MigrationProgressListener): () => void {
+    this.migrationListeners.add(listener);
+    if (this.lastMigrationProgress) {
+      listener(this.lastMigrationProgress);
+    }
+    return () => {
+      this.migrationListeners.delete(listener);
+    };
+  }
+
+  private reportMigrationProgress(progress: MigrationProgress): void {
+    this.lastMigrationProgress = progress;
+    this.migrationListeners.forEach(listener => listener(progress));
+  }
+
   private ensureDB(): IDBDatabase {
     if (!this.db) {
       throw new Error('Database not initialized. Call init() first.');
@@ -83,6 +290,66 @@ export class DatabaseManager {
     return this.db;
   }
 
+  // Run several reads and writes across stores as one atomic unit.
+  // Everything commits when `work` resolves and rolls back if it throws. Only await
+  // operations on `tx` inside `work` (do encryption etc. beforehand) or IndexedDB
+  // auto-commits the transaction while the work is still pending.
+  async runTransaction<T>(
+    storeNames: string[],
+    mode: TransactionMode,
+    work: (tx: StoreTransaction) => Promise<T>
+  ): Promise<T> {
+    const db = this.ensureDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(storeNames, mode);
+      let workDone = false;
+      let workFailure: unknown = null;
+      let result: T;
+
+      transaction.oncomplete = () => {
+        if (!workDone) {
+          reject(new Error('Transaction committed before its work finished. Only await transaction operations inside runTransaction().'));
+          return;
+        }
+        resolve(result);
+      };
+
+      transaction.onabort = () => {
+        reject(workFailure ?? transaction.error ?? new Error(`Transaction on ${storeNames.join(', ')} was aborted`));
+      };
+
+      work(new IndexedDBStoreTransaction(transaction)).then(
+        (value) => {
+          result = value;
+          workDone = true;
+        },
+        (error) => {
+          workFailure = error;
+          try {
+            transaction.abort();
+          } catch {
+            // Transaction already finished
+          }
+        }
+      );
+    });
+  }
+
+  // Batch writes
+  async putMany<T>(storeName: string, records: T[]): Promise<void> {
+    if (records.length === 0) return;
+    await this.runTransaction([storeName], 'readwrite', async (tx) => {
+      await Promise.all(records.map(record => tx.put(storeName, record)));
+    });
+  }
+
+  async deleteMany(storeName: string, keys: string[]): Promise<void> {
+    if (keys.length === 0) return;
+    await this.runTransaction([storeName], 'readwrite', async (tx) => {
+      await Promise.all(keys.map(key => tx.delete(storeName, key)));
+    });
+  }
+
   // Generic CRUD operations
   async add<T>(storeName: string, data: T): Promise<void> {
     const db = this.ensureDB();
@@ -170,8 +437,9 @@ export class DatabaseManager {
     return new Promise((resolve, reject) => {
       const transaction = db.transaction([STORES.ENTRIES], 'readonly');
       const store = transaction.objectStore(STORES.ENTRIES);
-      const index = store.index('timestamp');
-      const range = IDBKeyRange.bound(startDate, endDate);
+      // Plaintext sort keys are the timestamp in ms; sealed entries never match a real date range
+      const index = store.index('sortKey');
+      const range = IDBKeyRange.bound(startDate.getTime(), endDate.getTime());
       const request = index.getAll(range);
 
       request.onsuccess = () => resolve(request.result);
@@ -179,6 +447,56 @@ export class DatabaseManager {
     });
   }
 
+  async countEntries(): Promise<number> {
+    const db = this.ensureDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([STORES.ENTRIES], 'readonly');
+      const request = transaction.objectStore(STORES.ENTRIES).count();
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(new Error('Failed to count entries'));
+    });
+  }
+
+  // Walk the sort key index newest first, returning at most `limit` entries after `cursor`
+  async getEntriesPage(limit: number, cursor?: EntryPageCursor | null): Promise<EntryPage> {
+    const db = this.ensureDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([STORES.ENTRIES], 'readonly');
+      const index = transaction.objectStore(STORES.ENTRIES).index('sortKey');
+      const range = cursor ? IDBKeyRange.upperBound(cursor.sortKey) : undefined;
+      const request = index.openCursor(range, 'prev');
+      const entries: JournalEntry[] = [];
+
+      request.onsuccess = () => {
+        const current = request.result;
+        if (!current) {
+          resolve({ entries, nextCursor: null });
+          return;
+        }
+
+        const entry = current.value as JournalEntry;
+
+        // Entries sharing the cursor's sort key come back in descending id order; skip those already returned
+        if (cursor && entry.sortKey === cursor.sortKey && entry.id >= cursor.id) {
+          current.continue();
+          return;
+        }
+
+        entries.push(entry);
+        if (entries.length >= limit) {
+          resolve({
+            entries,
+            nextCursor: { sortKey: entry.sortKey!, id: entry.id },
+          });
+          return;
+        }
+        current.continue();
+      };
+      request.onerror = () => reject(new Error('Failed to get entries page'));
+    });
+  }
+
   // Chat sessions specific methods
   async saveSession(session: ChatSession): Promise<void> {
     return this.add(STORES.SESSIONS, session);
@@ -200,6 +518,22 @@ export class DatabaseManager {
     return this.delete(STORES.SESSIONS, id);
   }
 
+  // Chat messages specific methods
+  async saveMessage(message: ChatMessage): Promise<void> {
+    return this.update(STORES.MESSAGES, message);
+  }
+
+  async getMessagesBySession(sessionId: string): Promise<ChatMessage[]> {
+    const messages = await this.runTransaction([STORES.MESSAGES], 'readonly', tx =>
+      tx.getAllByIndex<ChatMessage>(STORES.MESSAGES, 'sessionId', sessionId)
+    );
+    return messages.sort((a, b) => a.sequence - b.sequence);
+  }
+
+  async getAllMessages(): Promise<ChatMessage[]> {
+    return this.getAll<ChatMessage>(STORES.MESSAGES);
+  }
+
   // Settings methods
   async saveSetting(key: string, value: unknown): Promise<void> {
     return this.add(STORES.SETTINGS, { key, value });
@@ -213,6 +547,11 @@ export class DatabaseManager {
   async updateSetting(key: string, value: unknown): Promise<void> {
     return this.update(STORES.SETTINGS, { key, value });
   }
+
+  // Analysis cache methods
+  async getCachedAnalysis(key: string): Promise<CachedAnalysis | undefined> {
+    return this.get<CachedAnalysis>(STORES.ANALYSIS_CACHE, key);
+  }
 }
 
 // Singleton instance
@@ -0,0 +1,149 @@
+// Offline emotion classification over a fixed set of emotions, which double as the moods an
+// entry can be tagged with
+import { lookupWord, readSentence, splitSentences } from './sentiment';
+
+export const EMOTIONS = [
+  'happy', 'sad', 'excited', 'calm', 'anxious', 'grateful', 'confused', 'proud', 'tired', 'energetic',
+] as const;
+
+export type Emotion = typeof EMOTIONS[number];
+
+export type EmotionIntensities = Record<Emotion, number>; // Each 0 to 1
+
+export const MOOD_EMOJIS: Record<Emotion, string> = {
+  happy: '😊',
+  sad: '😢',
+  excited: '🤩',
+  calm: '😌',
+  anxious: '😰',
+  grateful: '🙏',
+  confused: '😕',
+  proud: '😎',
+  tired: '😴',
+  energetic: '⚡',
+};
+
+type EmotionWeights = Partial<EmotionIntensities>;
+
+// How strongly each word signals each emotion, 0 to 1
+const EMOTION_WORDS: Record<string, EmotionWeights> = {
+  happy: { happy: 1 }, happier: { happy: 1 }, happiness: { happy: 1 }, glad: { happy: 0.8 },
+  joy: { happy: 1 }, joyful: { happy: 1 }, cheerful: { happy: 0.9 }, delighted: { happy: 1, excited: 0.3 },
+  smile: { happy: 0.6 }, smiled: { happy: 0.6 }, laugh: { happy: 0.7 }, laughed: { happy: 0.7 },
+  fun: { happy: 0.7, excited: 0.3 }, great: { happy: 0.5 }, good: { happy: 0.3 }, wonderful: { happy: 0.7 },
+  amazing: { happy: 0.6, excited: 0.4 }, love: { happy: 0.6, grateful: 0.2 }, loved: { happy: 0.6, grateful: 0.3 },
+  lovely: { happy: 0.6 }, enjoyed: { happy: 0.7 },
+
+  sad: { sad: 1 }, sadness: { sad: 1 }, unhappy: { sad: 0.9 }, cry: { sad: 0.9 }, cried: { sad: 0.9 },
+  crying: { sad: 0.9 }, tears: { sad: 0.7 }, miss: { sad: 0.5 }, missed: { sad: 0.4 }, lonely: { sad: 0.8 },
+  alone: { sad: 0.4 }, grief: { sad: 1 }, grieving: { sad: 1 }, heartbroken: { sad: 1 },
+  depressed: { sad: 1, tired: 0.3 }, miserable: { sad: 1 }, upset: { sad: 0.6, anxious: 0.3 },
+  disappointed: { sad: 0.7 }, hurt: { sad: 0.7 }, gloomy: { sad: 0.7 },
+
+  excited: { excited: 1 }, exciting: { excited: 0.9 }, excitement: { excited: 1 }, thrilled: { excited: 1, happy: 0.5 },
+  eager: { excited: 0.7 }, stoked: { excited: 0.9 }, yay: { excited: 0.7, happy: 0.5 }, wow: { excited: 0.6 },
+  celebrate: { excited: 0.6, happy: 0.5 }, celebrated: { excited: 0.6, happy: 0.5 }, adventure: { excited: 0.6 },
+
+  calm: { calm: 1 }, peaceful: { calm: 1 }, peace: { calm: 0.8 }, relaxed: { calm: 0.9 }, relaxing: { calm: 0.8 },
+  serene: { calm: 1 }, rested: { calm: 0.6, energetic: 0.3 }, quiet: { calm: 0.4 }, chill: { calm: 0.6 },
+  meditate: { calm: 0.7 }, meditation: { calm: 0.7 }, relief: { calm: 0.7 }, relieved: { calm: 0.7 },
+  breathe: { calm: 0.4 }, balanced: { calm: 0.6 },
+
+  anxious: { anxious: 1 }, anxiety: { anxious: 1 }, worried: { anxious: 0.9 }, worry: { anxious: 0.8 },
+  nervous: { anxious: 0.9 }, stressed: { anxious: 0.8 }, stress: { anxious: 0.7 }, stressful: { anxious: 0.7 },
+  panic: { anxious: 1 }, scared: { anxious: 0.8 }, afraid: { anxious: 0.8 }, fear: { anxious: 0.8 },
+  overwhelmed: { anxious: 0.8, tired: 0.3 }, tense: { anxious: 0.7 }, uneasy: { anxious: 0.7 },
+  restless: { anxious: 0.6, energetic: 0.2 }, dread: { anxious: 0.9 }, deadline: { anxious: 0.4 },
+
+  grateful: { grateful: 1 }, gratitude: { grateful: 1 }, thankful: { grateful: 1 }, thanks: { grateful: 0.6 },
+  blessed: { grateful: 0.9 }, appreciate: { grateful: 0.8 }, appreciated: { grateful: 0.7 },
+  lucky: { grateful: 0.6, happy: 0.3 }, fortunate: { grateful: 0.7 },
+
+  confused: { confused: 1 }, confusing: { confused: 0.9 }, unsure: { confused: 0.8 }, uncertain: { confused: 0.8 },
+  lost: { confused: 0.6, sad: 0.3 }, puzzled: { confused: 0.9 }, unclear: { confused: 0.6 }, torn: { confused: 0.7 },
+  conflicted: { confused: 0.8 }, overthinking: { confused: 0.5, anxious: 0.5 }, wonder: { confused: 0.3 },
+
+  proud: { proud: 1 }, accomplished: { proud: 0.9 }, achievement: { proud: 0.8 }, achieved: { proud: 0.8 },
+  success: { proud: 0.7 }, successful: { proud: 0.7 }, finished: { proud: 0.4 }, completed: { proud: 0.4 },
+  won: { proud: 0.7, excited: 0.4 }, nailed: { proud: 0.8 }, promotion: { proud: 0.7, excited: 0.4 },
+  confident: { proud: 0.6 },
+
+  tired: { tired: 1 }, exhausted: { tired: 1 }, exhausting: { tired: 0.8 }, drained: { tired: 0.9 },
+  sleepy: { tired: 0.9 }, burnt: { tired: 0.7 }, burnout: { tired: 0.9, sad: 0.2 }, fatigue: { tired: 0.9 },
+  fatigued: { tired: 0.9 }, weary: { tired: 0.8 }, insomnia: { tired: 0.7, anxious: 0.3 }, sick: { tired: 0.5, sad: 0.3 },
+
+  energetic: { energetic: 1 }, energized: { energetic: 1 }, energy: { energetic: 0.6 }, motivated: { energetic: 0.8 },
+  productive: { energetic: 0.7, proud: 0.3 }, active: { energetic: 0.6 }, workout: { energetic: 0.6 },
+  gym: { energetic: 0.5 }, refreshed: { energetic: 0.7, calm: 0.3 }, alive: { energetic: 0.6 },
+  pumped: { energetic: 0.6, excited: 0.6 },
+};
+
+const EMOTION_EMOJIS: Record<string, EmotionWeights> = {
+  '😊': { happy: 1 }, '😀': { happy: 1 }, '😃': { happy: 1 }, '😄': { happy: 1 }, '😁': { happy: 1 },
+  '😂': { happy: 0.8 }, '🙂': { happy: 0.5 }, '🥰': { happy: 0.8, grateful: 0.4 }, '😍': { happy: 0.8, excited: 0.3 },
+  '😢': { sad: 1 }, '😭': { sad: 1 }, '😞': { sad: 0.9 }, '😔': { sad: 0.9 }, '💔': { sad: 1 }, '🙁': { sad: 0.7 },
+  '🤩': { excited: 1 }, '🥳': { excited: 1, happy: 0.5 }, '🎉': { excited: 0.8, happy: 0.5 },
+  '😌': { calm: 1 }, '🧘': { calm: 1 }, '🌿': { calm: 0.5 },
+  '😰': { anxious: 1 }, '😨': { anxious: 0.9 }, '😟': { anxious: 0.8 }, '😬': { anxious: 0.6 }, '😱': { anxious: 0.9 },
+  '🙏': { grateful: 1 }, '🤗': { grateful: 0.5, happy: 0.5 },
+  '😕': { confused: 1 }, '🤔': { confused: 0.7 }, '😵': { confused: 0.8, tired: 0.3 },
+  '😎': { proud: 1 }, '🏆': { proud: 1, excited: 0.4 }, '💪': { proud: 0.6, energetic: 0.6 },
+  '😴': { tired: 1 }, '🥱': { tired: 1 }, '😪': { tired: 0.9 },
+  '⚡': { energetic: 1 }, '🔥': { energetic: 0.7, excited: 0.5 }, '🏃': { energetic: 0.8 },
+};
+
+// Raw evidence is mapped to 1 - e^(-raw / scale): one clear word gives about 0.5
+const EMOTION_SATURATION = 1.5;
+// Below this the dominant emotion isn't clear enough to suggest as a mood
+const MIN_MOOD_INTENSITY = 0.3;
+
+export function emptyEmotionIntensities(): EmotionIntensities {
+  return Object.fromEntries(EMOTIONS.map(emotion => [emotion, 0])) as EmotionIntensities;
+}
+
+export function isEmotion(value: unknown): value is Emotion {
+  return typeof value === 'string' && (EMOTIONS as readonly string[]).includes(value);
+}
+
+// Per-emotion intensities for a text. Negated words ("not tired") are skipped rather than
+// flipped, since the opposite emotion isn't implied; both sides of a "but" count.
+export function analyzeEmotions(text: string, emojis: string[] = []): EmotionIntensities {
+  const raw = emptyEmotionIntensities();
+
+  for (const sentence of splitSentences(text, emojis)) {
+    for (const reading of readSentence(sentence)) {
+      if (reading.negated) continue;
+
+      const weights = Object.prototype.hasOwnProperty.call(EMOTION_EMOJIS, reading.token)
+        ? EMOTION_EMOJIS[reading.token]
+        : lookupWord(EMOTION_WORDS, reading.word);
+      if (!weights) continue;
+
+      const strength = Math.max(0, 1 + reading.intensity);
+      for (const emotion of EMOTIONS) {
+        raw[emotion] += (weights[emotion] ?? 0) * strength;
+      }
+    }
+  }
+
+  const intensities = emptyEmotionIntensities();
+  for (const emotion of EMOTIONS) {
+    intensities[emotion] = Math.round((1 - Math.exp(-raw[emotion] / EMOTION_SATURATION)) * 100) / 100;
+  }
+  return intensities;
+}
+
+// The strongest emotion, if it is clear enough to use as a mood
+export function getDominantEmotion(intensities: EmotionIntensities): Emotion | null {
+  let dominant: Emotion | null = null;
+  for (const emotion of EMOTIONS) {
+    if (intensities[emotion] >= MIN_MOOD_INTENSITY && (!dominant || intensities[emotion] > intensities[dominant])) {
+      dominant = emotion;
+    }
+  }
+  return dominant;
+}
+
+export function suggestMood(text: string, emojis: string[] = []): Emotion | null {
+  return getDominantEmotion(analyzeEmotions(text, emojis));
+}
@@ -1,5 +1,29 @@
 // Encryption utilities for journal entries
-import { JournalEntry } from './database';
+import { JournalEntry, ChatMessage, ChatSession } from './database';
+
+// Thrown when a password does not unlock the journal
+export class WrongPasswordError extends Error {
+  constructor(message = 'Incorrect password') {
+    super(message);
+    this.name = 'WrongPasswordError';
+  }
+}
+
+// Thrown for writes to an encrypted journal whose key isn't loaded, rather than storing plaintext
+export class JournalLockedError extends Error {
+  constructor(message = 'Journal is locked') {
+    super(message);
+    this.name = 'JournalLockedError';
+  }
+}
+
+// Password canary written before key envelopes existed; replaced by a KeyEnvelope on the next unlock
+export interface PasswordVerifier {
+  ciphertext: ArrayBuffer;
+  iv: Uint8Array;
+}
+
+const VERIFIER_PLAINTEXT = 'vibe-journal-password-check-v1';
 
 // Generate a random key for encryption
 export async function generateEncryptionKey(): Promise<CryptoKey> {
@@ -13,31 +37,167 @@ export async function generateEncryptionKey(): Promise<CryptoKey> {
   );
 }
 
-// Derive a key from a password using PBKDF2
-export async function deriveKeyFromPassword(
+// Key derivation parameters, stored next to the data they protect
+export interface KdfParams {
+  algorithm: 'PBKDF2-SHA-256';
+  iterations: number;
+  salt: Uint8Array;
+}
+
+// Iteration count used before parameters were stored; still needed to open older journals
+export const LEGACY_KDF_ITERATIONS = 100000;
+// localStorage key of the salt used before parameters were stored
+export const LEGACY_SALT_STORAGE_KEY = 'vibe_journal_salt';
+
+// Bounds and target for calibration: never weaker than current guidance, never painfully slow
+const MIN_KDF_ITERATIONS = 310000;
+const MAX_KDF_ITERATIONS = 5000000;
+const KDF_TARGET_MS = 500;
+const KDF_PROBE_ITERATIONS = 50000;
+
+export function createKdfParams(iterations: number): KdfParams {
+  return {
+    algorithm: 'PBKDF2-SHA-256',
+    iterations,
+    salt: crypto.getRandomValues(new Uint8Array(16)),
+  };
+}
+
+// Time a short PBKDF2 run and scale it up to roughly KDF_TARGET_MS on this device
+export async function calibrateKdfIterations(): Promise<number> {
+  const keyMaterial = await crypto.subtle.importKey(
+    'raw',
+    crypto.getRandomValues(new Uint8Array(16)),
+    'PBKDF2',
+    false,
+    ['deriveBits']
+  );
+
+  const start = performance.now();
+  await crypto.subtle.deriveBits(
+    {
+      name: 'PBKDF2',
+      salt: crypto.getRandomValues(new Uint8Array(16)) as unknown as ArrayBuffer,
+      iterations: KDF_PROBE_ITERATIONS,
+      hash: 'SHA-256',
+    },
+    keyMaterial,
+    256
+  );
+  const elapsed = Math.max(performance.now() - start, 1);
+
+  const iterations = Math.round((KDF_PROBE_ITERATIONS * KDF_TARGET_MS) / elapsed / 10000) * 10000;
+  return Math.min(Math.max(iterations, MIN_KDF_ITERATIONS), MAX_KDF_ITERATIONS);
+}
+
+async function deriveKey(
   password: string,
-  salt: Uint8Array
+  kdf: KdfParams,
+  extractable: boolean,
+  usages: KeyUsage[]
 ): Promise<CryptoKey> {
+  if (kdf.algorithm !== 'PBKDF2-SHA-256') {
+    throw new Error(`Unsupported key derivation: ${kdf.algorithm}`);
+  }
+
   const keyMaterial = await crypto.subtle.importKey(
     'raw',
     new TextEncoder().encode(password),
     'PBKDF2',
     false,
-    ['deriveBits', 'deriveKey']
+    ['deriveKey']
   );
 
   return await crypto.subtle.deriveKey(
     {
       name: 'PBKDF2',
-      salt: salt as unknown as ArrayBuffer,
-      iterations: 100000,
+      salt: kdf.salt as unknown as ArrayBuffer,
+      iterations: kdf.iterations,
       hash: 'SHA-256',
     },
     keyMaterial,
     { name: 'AES-GCM', length: 256 },
-    false,
-    ['encrypt', 'decrypt']
+    extractable,
+    usages
+  );
+}
+
+// Derive a key from a password using PBKDF2
+export async function deriveKeyFromPassword(
+  password: string,
+  kdf: KdfParams,
+  extractable = false
+): Promise<CryptoKey> {
+  return deriveKey(password, kdf, extractable, ['encrypt', 'decrypt']);
+}
+
+// Data key wrapped by a password-derived key; changing the password only rewraps this record
+export interface KeyEnvelope {
+  version: 2;
+  kdf: KdfParams;
+  iv: Uint8Array;
+  wrappedKey: ArrayBuffer;
+}
+
+// Envelopes written before KDF parameters were stored: always 100,000 PBKDF2 iterations
+interface LegacyKeyEnvelope {
+  version: 1;
+  salt: Uint8Array;
+  iv: Uint8Array;
+  wrappedKey: ArrayBuffer;
+}
+
+export type StoredKeyEnvelope = KeyEnvelope | LegacyKeyEnvelope;
+
+export function getEnvelopeKdf(envelope: StoredKeyEnvelope): KdfParams {
+  if (envelope.version === 1) {
+    return { algorithm: 'PBKDF2-SHA-256', iterations: LEGACY_KDF_ITERATIONS, salt: envelope.salt };
+  }
+  return envelope.kdf;
+}
+
+// Older envelope formats and weaker parameters are rewrapped on the next successful unlock
+export function needsKdfUpgrade(envelope: StoredKeyEnvelope, iterations: number): boolean {
+  return envelope.version !== 2 || envelope.kdf.iterations < iterations;
+}
+
+// Wrap an extractable data key under a password, with a fresh salt each time
+export async function wrapDataKey(dataKey: CryptoKey, password: string, iterations: number): Promise<KeyEnvelope> {
+  const kdf = createKdfParams(iterations);
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const wrappingKey = await deriveKey(password, kdf, false, ['wrapKey', 'unwrapKey']);
+
+  const wrappedKey = await crypto.subtle.wrapKey(
+    'raw',
+    dataKey,
+    wrappingKey,
+    { name: 'AES-GCM', iv: iv as unknown as ArrayBuffer }
   );
+
+  return { version: 2, kdf, iv, wrappedKey };
+}
+
+// AES-GCM authenticates the wrapped key, so a wrong password fails here before any data is read
+export async function unwrapDataKey(
+  envelope: StoredKeyEnvelope,
+  password: string,
+  extractable = false
+): Promise<CryptoKey> {
+  const wrappingKey = await deriveKey(password, getEnvelopeKdf(envelope), false, ['wrapKey', 'unwrapKey']);
+
+  try {
+    return await crypto.subtle.unwrapKey(
+      'raw',
+      envelope.wrappedKey,
+      wrappingKey,
+      { name: 'AES-GCM', iv: envelope.iv as unknown as ArrayBuffer },
+      { name: 'AES-GCM', length: 256 },
+      extractable,
+      ['encrypt', 'decrypt']
+    );
+  } catch {
+    throw new WrongPasswordError();
+  }
 }
 
 // Encrypt text data
@@ -78,6 +238,51 @@ export async function decryptText(
   return new TextDecoder().decode(decryptedData);
 }
 
+// AES-GCM rejects a wrong key, so any failure means the password doesn't match
+export async function checkPasswordVerifier(verifier: PasswordVerifier, key: CryptoKey): Promise<boolean> {
+  try {
+    return await decryptText(verifier.ciphertext, verifier.iv, key) === VERIFIER_PLAINTEXT;
+  } catch {
+    return false;
+  }
+}
+
+// Recovery keys: 160 random bits as Crockford base32, e.g. 7K3Q-M9XA-...
+const RECOVERY_ALPHABET = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+const RECOVERY_KEY_LENGTH = 32;
+
+export function generateRecoveryKey(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(20));
+  let bits = 0;
+  let value = 0;
+  let code = '';
+
+  for (const byte of bytes) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      code += RECOVERY_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  return code.match(/.{4}/g)!.join('-');
+}
+
+// Accept lowercase, missing dashes and the usual look-alike characters
+export function normalizeRecoveryKey(input: string): string | null {
+  const code = input
+    .toUpperCase()
+    .replace(/[^0-9A-Z]/g, '')
+    .replace(/O/g, '0')
+    .replace(/[IL]/g, '1');
+
+  if (code.length !== RECOVERY_KEY_LENGTH || [...code].some(char => !RECOVERY_ALPHABET.includes(char))) {
+    return null;
+  }
+  return code.match(/.{4}/g)!.join('-');
+}
+
 // Encrypt a journal entry
 export async function encryptJournalEntry(
   entry: Omit<JournalEntry, 'id' | 'encrypted' | 'createdAt' | 'updatedAt'>,
@@ -111,6 +316,101 @@ export async function encryptJournalEntry(
   };
 }
 
+// Analysis derived from an entry's content, encrypted next to it when the rest of the metadata stays readable
+interface SealedAnalysisPayload {
+  sentimentScore?: number;
+  themes?: string[];
+  analysisTimestamp?: string; // ISO 8601
+  analysisVersion?: string;
+  themesVersion?: string;
+}
+
+// Encrypt an entry's content and its analysis, leaving the other metadata readable
+export async function encryptJournalContent(entry: JournalEntry, key: CryptoKey): Promise<JournalEntry> {
+  const { sentimentScore, themes, analysisTimestamp, analysisVersion, themesVersion, ...metadata } = entry;
+  const content = typeof entry.content === 'string' ? entry.content : '';
+  const { encryptedData, iv } = await encryptText(content, key);
+
+  const encryptedEntry: JournalEntry = {
+    ...metadata,
+    content: encryptedData,
+    iv,
+    encrypted: true,
+    sealedAnalysis: undefined,
+    analysisIv: undefined,
+  };
+  if ([sentimentScore, themes, analysisTimestamp, analysisVersion, themesVersion].some(field => field !== undefined)) {
+    const payload: SealedAnalysisPayload = {
+      sentimentScore,
+      themes,
+      analysisTimestamp: analysisTimestamp?.toISOString(),
+      analysisVersion,
+      themesVersion,
+    };
+    const sealed = await encryptText(JSON.stringify(payload), key);
+    encryptedEntry.sealedAnalysis = sealed.encryptedData;
+    encryptedEntry.analysisIv = sealed.iv;
+  }
+  return encryptedEntry;
+}
+
+// Everything user-derived about an entry, serialized into the ciphertext when metadata is sealed
+interface SealedEntryPayload {
+  content: string;
+  emojis: string[];
+  tags?: string[];
+  mood?: string;
+  aiPrivate?: boolean;
+  sentimentScore?: number;
+  themes?: string[];
+  timestamp: string; // ISO 8601
+  createdAt: string;
+  updatedAt: string;
+  analysisTimestamp?: string;
+  analysisVersion?: string;
+  themesVersion?: string;
+}
+
+// Encrypt an entry's content and metadata into one blob. Only the id, the opaque sort key and
+// blind tag tokens stay readable; the date fields hold the epoch so the record keeps its shape.
+export async function sealJournalEntry(
+  entry: JournalEntry,
+  key: CryptoKey,
+  sortKey: number,
+  tagTokens: string[]
+): Promise<JournalEntry> {
+  const payload: SealedEntryPayload = {
+    content: typeof entry.content === 'string' ? entry.content : '',
+    emojis: entry.emojis,
+    tags: entry.tags,
+    mood: entry.mood,
+    aiPrivate: entry.aiPrivate,
+    sentimentScore: entry.sentimentScore,
+    themes: entry.themes,
+    timestamp: entry.timestamp.toISOString(),
+    createdAt: entry.createdAt.toISOString(),
+    updatedAt: entry.updatedAt.toISOString(),
+    analysisTimestamp: entry.analysisTimestamp?.toISOString(),
+    analysisVersion: entry.analysisVersion,
+    themesVersion: entry.themesVersion,
+  };
+  const { encryptedData, iv } = await encryptText(JSON.stringify(payload), key);
+
+  return {
+    id: entry.id,
+    content: encryptedData,
+    iv,
+    emojis: [],
+    timestamp: new Date(0),
+    encrypted: true,
+    metadataEncrypted: true,
+    createdAt: new Date(0),
+    updatedAt: new Date(0),
+    sortKey,
+    tagTokens,
+  };
+}
+
 // Decrypt a journal entry
 export async function decryptJournalEntry(
   encryptedEntry: JournalEntry,
@@ -134,45 +434,251 @@ export async function decryptJournalEntry(
     key
   );
 
-  return {
+  if (encryptedEntry.metadataEncrypted) {
+    const payload = JSON.parse(decryptedContent) as SealedEntryPayload;
+    return {
+      id: encryptedEntry.id,
+      content: payload.content,
+      emojis: payload.emojis,
+      timestamp: new Date(payload.timestamp),
+      encrypted: false,
+      tags: payload.tags,
+      mood: payload.mood,
+      aiPrivate: payload.aiPrivate,
+      createdAt: new Date(payload.createdAt),
+      updatedAt: new Date(payload.updatedAt),
+      sentimentScore: payload.sentimentScore,
+      themes: payload.themes,
+      analysisTimestamp: payload.analysisTimestamp ? new Date(payload.analysisTimestamp) : undefined,
+      analysisVersion: payload.analysisVersion,
+      themesVersion: payload.themesVersion,
+      sortKey: encryptedEntry.sortKey,
+    };
+  }
+
+  const decryptedEntry: JournalEntry = {
     ...encryptedEntry,
     content: decryptedContent,
     encrypted: false,
+    sealedAnalysis: undefined,
+    analysisIv: undefined,
   };
+  if (encryptedEntry.sealedAnalysis && encryptedEntry.analysisIv) {
+    const analysis = JSON.parse(
+      await decryptText(encryptedEntry.sealedAnalysis, encryptedEntry.analysisIv, key)
+    ) as SealedAnalysisPayload;
+    decryptedEntry.sentimentScore = analysis.sentimentScore;
+    decryptedEntry.themes = analysis.themes;
+    decryptedEntry.analysisTimestamp = analysis.analysisTimestamp ? new Date(analysis.analysisTimestamp) : undefined;
+    decryptedEntry.analysisVersion = analysis.analysisVersion;
+    decryptedEntry.themesVersion = analysis.themesVersion;
+  }
+  return decryptedEntry;
 }
 
+// Encrypt a chat message
+export async function encryptChatMessage(
+  message: ChatMessage,
+  key: CryptoKey
+): Promise<ChatMessage> {
+  const content = typeof message.content === 'string' ? message.content : '';
+  const { encryptedData, iv } = await encryptText(content, key);
+
+  return {
+    ...message,
+    content: encryptedData,
+    iv,
+    encrypted: true,
+  };
+}
+
+// Decrypt a chat message
+export async function decryptChatMessage(
+  encryptedMessage: ChatMessage,
+  key: CryptoKey
+): Promise<ChatMessage> {
+  if (!encryptedMessage.encrypted || typeof encryptedMessage.content === 'string') {
+    return encryptedMessage; // Already decrypted
+  }
+
+  if (!encryptedMessage.iv) {
+    throw new Error('IV is required for decryption');
+  }
+
+  const decryptedContent = await decryptText(
+    encryptedMessage.content,
+    encryptedMessage.iv,
+    key
+  );
+
+  return {
+    ...encryptedMessage,
+    content: decryptedContent,
+    encrypted: false,
+    iv: undefined,
+  };
+}
+
+// Session fields kept in the ciphertext: always the summary, and the times when metadata is sealed
+interface SealedSessionPayload {
+  summary?: string;
+  startTime?: string; // ISO 8601
+  endTime?: string;
+}
+
+export async function sealChatSession(
+  session: ChatSession,
+  key: CryptoKey,
+  sealMetadata: boolean
+): Promise<ChatSession> {
+  const payload: SealedSessionPayload = {
+    summary: session.summary,
+    startTime: sealMetadata ? session.startTime.toISOString() : undefined,
+    endTime: sealMetadata ? session.endTime?.toISOString() : undefined,
+  };
+  const { encryptedData, iv } = await encryptText(JSON.stringify(payload), key);
+
+  return {
+    id: session.id,
+    entryIds: session.entryIds,
+    startTime: sealMetadata ? new Date(0) : session.startTime,
+    endTime: sealMetadata ? undefined : session.endTime,
+    encrypted: true,
+    metadataEncrypted: sealMetadata,
+    sealedData: encryptedData,
+    iv,
+  };
+}
+
+export async function openChatSession(
+  sealedSession: ChatSession,
+  key: CryptoKey
+): Promise<ChatSession> {
+  if (!sealedSession.encrypted || !sealedSession.sealedData) {
+    return sealedSession; // Stored in plaintext
+  }
+
+  if (!sealedSession.iv) {
+    throw new Error('IV is required for decryption');
+  }
+
+  const payload = JSON.parse(
+    await decryptText(sealedSession.sealedData, sealedSession.iv, key)
+  ) as SealedSessionPayload;
+
+  return {
+    id: sealedSession.id,
+    entryIds: sealedSession.entryIds,
+    startTime: payload.startTime ? new Date(payload.startTime) : sealedSession.startTime,
+    endTime: payload.endTime ? new Date(payload.endTime) : sealedSession.endTime,
+    summary: payload.summary,
+  };
+}
+
+// Blind index key: an HMAC key stored encrypted under the data key
+export interface SealedIndexKey {
+  ciphertext: ArrayBuffer;
+  iv: Uint8Array;
+}
+
+export async function generateIndexKey(): Promise<CryptoKey> {
+  return await crypto.subtle.generateKey(
+    { name: 'HMAC', hash: 'SHA-256', length: 256 },
+    true, // extractable, so it can be sealed under the data key
+    ['sign']
+  );
+}
+
+export async function sealIndexKey(indexKey: CryptoKey, dataKey: CryptoKey): Promise<SealedIndexKey> {
+  const rawKey = await crypto.subtle.exportKey('raw', indexKey);
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv: iv as unknown as ArrayBuffer },
+    dataKey,
+    rawKey
+  );
+  return { ciphertext, iv };
+}
+
+export async function openIndexKey(
+  sealedKey: SealedIndexKey,
+  dataKey: CryptoKey,
+  extractable = false
+): Promise<CryptoKey> {
+  const rawKey = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: sealedKey.iv as unknown as ArrayBuffer },
+    dataKey,
+    sealedKey.ciphertext
+  );
+  return await crypto.subtle.importKey(
+    'raw',
+    rawKey,
+    { name: 'HMAC', hash: 'SHA-256' },
+    extractable,
+    ['sign']
+  );
+}
+
+// Deterministic keyed token for exact-match lookups; callers namespace values, e.g. "tag:work"
+export async function blindToken(indexKey: CryptoKey, value: string): Promise<string> {
+  const mac = await crypto.subtle.sign('HMAC', indexKey, new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(mac).slice(0, 16), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// Called with true when a key is loaded and false when it is cleared (locked)
+export type LockStateListener = (unlocked: boolean) => void;
+
 // Key management utilities
 export class EncryptionManager {
   private key: CryptoKey | null = null;
-  private salt: Uint8Array | null = null;
+  private indexKey: CryptoKey | null = null;
+  private lockListeners = new Set<LockStateListener>();
+
+  // Subscribe to lock/unlock transitions; returns an unsubscribe function
+  onLockStateChange(listener: LockStateListener): () => void {
+    this.lockListeners.add(listener);
+    return () => {
+      this.lockListeners.delete(listener);
+    };
+  }
 
-  // Initialize with password
-  async initializeWithPassword(password: string): Promise<void> {
-    // Generate or retrieve salt
-    this.salt = this.getOrCreateSalt();
-    
+  private setKey(key: CryptoKey | null): void {
+    const wasUnlocked = this.key !== null;
+    this.key = key;
+    if (key === null) {
+      this.indexKey = null;
+    }
+    if (wasUnlocked !== (key !== null)) {
+      this.lockListeners.forEach(listener => listener(key !== null));
+    }
+  }
+
+  // Initialize with password, rejecting it with WrongPasswordError if a verifier is given and doesn't match
+  async initializeWithPassword(password: string, kdf: KdfParams, verifier?: PasswordVerifier): Promise<void> {
     // Derive key from password
-    this.key = await deriveKeyFromPassword(password, this.salt);
+    const key = await deriveKeyFromPassword(password, kdf);
+
+    if (verifier && !(await checkPasswordVerifier(verifier, key))) {
+      throw new WrongPasswordError();
+    }
+
+    this.setKey(key);
   }
 
   // Initialize with existing key
   async initializeWithKey(key: CryptoKey): Promise<void> {
-    this.key = key;
+    this.setKey(key);
   }
 
-  // Get or create salt for key derivation
-  private getOrCreateSalt(): Uint8Array {
-    const saltKey = 'vibe_journal_salt';
-    const storedSalt = localStorage.getItem(saltKey);
-    
-    if (storedSalt) {
-      return new Uint8Array(JSON.parse(storedSalt));
-    }
-    
-    // Generate new salt
-    const newSalt = crypto.getRandomValues(new Uint8Array(16));
-    localStorage.setItem(saltKey, JSON.stringify(Array.from(newSalt)));
-    return newSalt;
+  // Unlock an envelope-encrypted journal
+  async initializeWithEnvelope(envelope: StoredKeyEnvelope, password: string): Promise<void> {
+    this.setKey(await unwrapDataKey(envelope, password));
+  }
+
+  // Wrap the key of a journal encrypted directly with the password key, so it can move to envelopes
+  async wrapLegacyKey(password: string, kdf: KdfParams, iterations: number): Promise<KeyEnvelope> {
+    const legacyKey = await deriveKeyFromPassword(password, kdf, true);
+    return wrapDataKey(legacyKey, password, iterations);
   }
 
   // Check if encryption is initialized
@@ -219,10 +725,69 @@ export class EncryptionManager {
     return decryptJournalEntry(encryptedEntry, this.key);
   }
 
+  // Encrypt journal entry content and analysis, leaving the other metadata readable
+  async encryptContent(entry: JournalEntry): Promise<JournalEntry> {
+    if (!this.key) {
+      throw new Error('Encryption not initialized');
+    }
+    return encryptJournalContent(entry, this.key);
+  }
+
+  // Encrypt journal entry content and metadata into a single blob
+  async sealEntry(entry: JournalEntry, sortKey: number, tagTokens: string[]): Promise<JournalEntry> {
+    if (!this.key) {
+      throw new Error('Encryption not initialized');
+    }
+    return sealJournalEntry(entry, this.key, sortKey, tagTokens);
+  }
+
+  // Encrypt chat session summary, and its times too when metadata is sealed
+  async sealSession(session: ChatSession, sealMetadata: boolean): Promise<ChatSession> {
+    if (!this.key) {
+      throw new Error('Encryption not initialized');
+    }
+    return sealChatSession(session, this.key, sealMetadata);
+  }
+
+  // Decrypt chat session
+  async openSession(sealedSession: ChatSession): Promise<ChatSession> {
+    if (!this.key) {
+      throw new Error('Encryption not initialized');
+    }
+    return openChatSession(sealedSession, this.key);
+  }
+
+  // Blind index key, cached while unlocked and dropped on lock
+  getIndexKey(): CryptoKey | null {
+    return this.indexKey;
+  }
+
+  setIndexKey(indexKey: CryptoKey): void {
+    if (!this.key) {
+      throw new Error('Encryption not initialized');
+    }
+    this.indexKey = indexKey;
+  }
+
+  // Encrypt chat message
+  async encryptMessage(message: ChatMessage): Promise<ChatMessage> {
+    if (!this.key) {
+      throw new Error('Encryption not initialized');
+    }
+    return encryptChatMessage(message, this.key);
+  }
+
+  // Decrypt chat message
+  async decryptMessage(encryptedMessage: ChatMessage): Promise<ChatMessage> {
+    if (!this.key) {
+      throw new Error('Encryption not initialized');
+    }
+    return decryptChatMessage(encryptedMessage, this.key);
+  }
+
   // Clear encryption state
   clear(): void {
-    this.key = null;
-    this.salt = null;
+    this.setKey(null);
   }
 
   // Export key (for backup purposes)
@@ -235,13 +800,13 @@ export class EncryptionManager {
 
   // Import key (for restore purposes)
   async importKey(keyData: ArrayBuffer): Promise<void> {
-    this.key = await crypto.subtle.importKey(
+    this.setKey(await crypto.subtle.importKey(
       'raw',
       keyData,
       'AES-GCM',
       false,
       ['encrypt', 'decrypt']
-    );
+    ));
   }
 }
 
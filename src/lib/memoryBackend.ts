@@ -0,0 +1,309 @@
+// In-memory storage backend for headless use (tests, Node scripts, SSR)
+import { STORES, JournalEntry, ChatSession, ChatMessage, CachedAnalysis, EntryPage, EntryPageCursor } from './database';
+import { StorageBackend, StoreTransaction, TransactionMode } from './storageBackend';
+
+type MemoryStore = Map<string, unknown>;
+
+// Stores keyed by something other than `id`
+const KEY_PATHS: Record<string, string> = {
+  [STORES.SETTINGS]: 'key',
+  [STORES.ANALYSIS_CACHE]: 'key',
+};
+
+function keyOf(storeName: string, record: unknown): string {
+  const keyPath = KEY_PATHS[storeName] ?? 'id';
+  const key = (record as Record<string, unknown>)[keyPath];
+  if (key === undefined || key === null) {
+    throw new Error(`Record for ${storeName} is missing its "${keyPath}" key`);
+  }
+  return String(key);
+}
+
+// Indexes here are all named after the field they cover; array fields behave like multiEntry indexes
+function matchesIndex(record: unknown, indexName: string, key: IDBValidKey): boolean {
+  const value = (record as Record<string, unknown>)[indexName];
+  const equals = (candidate: unknown) =>
+    candidate instanceof Date && key instanceof Date
+      ? candidate.getTime() === key.getTime()
+      : candidate === key;
+  return Array.isArray(value) ? value.some(equals) : equals(value);
+}
+
+// Mirror IndexedDB's structured cloning so callers never share references with the store
+function clone<T>(value: T): T {
+  return structuredClone(value);
+}
+
+class InMemoryStoreTransaction implements StoreTransaction {
+  constructor(
+    private readonly stores: Map<string, MemoryStore>,
+    private readonly mode: TransactionMode
+  ) {}
+
+  private store(storeName: string): MemoryStore {
+    const store = this.stores.get(storeName);
+    if (!store) {
+      throw new Error(`Store ${storeName} is not part of this transaction`);
+    }
+    return store;
+  }
+
+  private writableStore(storeName: string): MemoryStore {
+    if (this.mode !== 'readwrite') {
+      throw new Error(`Cannot write to ${storeName} in a readonly transaction`);
+    }
+    return this.store(storeName);
+  }
+
+  async get<T>(storeName: string, key: string): Promise<T | undefined> {
+    const value = this.store(storeName).get(key);
+    return value === undefined ? undefined : clone(value as T);
+  }
+
+  async getAll<T>(storeName: string): Promise<T[]> {
+    return Array.from(this.store(storeName).entries())
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([, value]) => clone(value as T));
+  }
+
+  async add<T>(storeName: string, data: T): Promise<void> {
+    const store = this.writableStore(storeName);
+    const key = keyOf(storeName, data);
+    if (store.has(key)) {
+      throw new Error(`Failed to add data to ${storeName}`);
+    }
+    store.set(key, clone(data));
+  }
+
+  async put<T>(storeName: string, data: T): Promise<void> {
+    this.writableStore(storeName).set(keyOf(storeName, data), clone(data));
+  }
+
+  async delete(storeName: string, key: string): Promise<void> {
+    this.writableStore(storeName).delete(key);
+  }
+
+  async clear(storeName: string): Promise<void> {
+    this.writableStore(storeName).clear();
+  }
+
+  async getAllByIndex<T>(storeName: string, indexName: string, key: IDBValidKey): Promise<T[]> {
+    const records = await this.getAll<T>(storeName);
+    return records.filter(record => matchesIndex(record, indexName, key));
+  }
+
+  async getKeysByIndex(storeName: string, indexName: string, key: IDBValidKey): Promise<string[]> {
+    return Array.from(this.store(storeName).entries())
+      .filter(([, record]) => matchesIndex(record, indexName, key))
+      .map(([recordKey]) => recordKey)
+      .sort();
+  }
+}
+
+export class InMemoryBackend implements StorageBackend {
+  private stores = new Map<string, MemoryStore>();
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(storeNames: string[] = Object.values(STORES)) {
+    for (const storeName of storeNames) {
+      this.stores.set(storeName, new Map());
+    }
+  }
+
+  async init(): Promise<void> {
+    // Nothing to open or migrate
+  }
+
+  // Waits for queued writes so none of them can land after the wipe
+  async destroy(): Promise<void> {
+    await this.writeQueue;
+    for (const storeName of this.stores.keys()) {
+      this.stores.set(storeName, new Map());
+    }
+  }
+
+  // No migrations run in memory, so listeners never fire
+  onMigrationProgress(): () => void {
+    return () => {};
+  }
+
+  private snapshot(storeNames: string[]): Map<string, MemoryStore> {
+    return new Map(storeNames.map((storeName) => {
+      const store = this.stores.get(storeName);
+      if (!store) {
+        throw new Error(`Unknown store: ${storeName}`);
+      }
+      return [storeName, new Map(store)];
+    }));
+  }
+
+  // Readwrite transactions run one at a time against a staged copy that is swapped in on success
+  async runTransaction<T>(
+    storeNames: string[],
+    mode: TransactionMode,
+    work: (tx: StoreTransaction) => Promise<T>
+  ): Promise<T> {
+    if (mode === 'readonly') {
+      return work(new InMemoryStoreTransaction(this.snapshot(storeNames), mode));
+    }
+
+    const run = this.writeQueue.then(async () => {
+      const staged = this.snapshot(storeNames);
+      const result = await work(new InMemoryStoreTransaction(staged, mode));
+      for (const [storeName, store] of staged) {
+        this.stores.set(storeName, store);
+      }
+      return result;
+    });
+    this.writeQueue = run.then(() => undefined, () => undefined);
+    return run;
+  }
+
+  // Batch writes
+  async putMany<T>(storeName: string, records: T[]): Promise<void> {
+    if (records.length === 0) return;
+    await this.runTransaction([storeName], 'readwrite', async (tx) => {
+      await Promise.all(records.map(record => tx.put(storeName, record)));
+    });
+  }
+
+  async deleteMany(storeName: string, keys: string[]): Promise<void> {
+    if (keys.length === 0) return;
+    await this.runTransaction([storeName], 'readwrite', async (tx) => {
+      await Promise.all(keys.map(key => tx.delete(storeName, key)));
+    });
+  }
+
+  // Generic CRUD operations
+  async add<T>(storeName: string, data: T): Promise<void> {
+    await this.runTransaction([storeName], 'readwrite', tx => tx.add(storeName, data));
+  }
+
+  async get<T>(storeName: string, key: string): Promise<T | undefined> {
+    return this.runTransaction([storeName], 'readonly', tx => tx.get<T>(storeName, key));
+  }
+
+  async getAll<T>(storeName: string): Promise<T[]> {
+    return this.runTransaction([storeName], 'readonly', tx => tx.getAll<T>(storeName));
+  }
+
+  async update<T>(storeName: string, data: T): Promise<void> {
+    await this.runTransaction([storeName], 'readwrite', tx => tx.put(storeName, data));
+  }
+
+  async delete(storeName: string, key: string): Promise<void> {
+    await this.runTransaction([storeName], 'readwrite', tx => tx.delete(storeName, key));
+  }
+
+  // Journal entries specific methods
+  async saveEntry(entry: JournalEntry): Promise<void> {
+    return this.add(STORES.ENTRIES, entry);
+  }
+
+  async getEntry(id: string): Promise<JournalEntry | undefined> {
+    return this.get<JournalEntry>(STORES.ENTRIES, id);
+  }
+
+  async getAllEntries(): Promise<JournalEntry[]> {
+    return this.getAll<JournalEntry>(STORES.ENTRIES);
+  }
+
+  async updateEntry(entry: JournalEntry): Promise<void> {
+    return this.update(STORES.ENTRIES, entry);
+  }
+
+  async deleteEntry(id: string): Promise<void> {
+    return this.delete(STORES.ENTRIES, id);
+  }
+
+  // Same as the IndexedDB sort key range: plaintext sort keys are the timestamp in ms
+  async getEntriesByDateRange(startDate: Date, endDate: Date): Promise<JournalEntry[]> {
+    const entries = await this.getAllEntries();
+    return entries
+      .filter(entry => entry.sortKey !== undefined && entry.sortKey >= startDate.getTime() && entry.sortKey <= endDate.getTime())
+      .sort((a, b) => a.sortKey! - b.sortKey!);
+  }
+
+  async countEntries(): Promise<number> {
+    return this.stores.get(STORES.ENTRIES)?.size ?? 0;
+  }
+
+  // Same ordering as the IndexedDB sort key index walked with 'prev': newest first, ties by id descending.
+  // Like the index, entries without a sort key are left out.
+  async getEntriesPage(limit: number, cursor?: EntryPageCursor | null): Promise<EntryPage> {
+    const ordered = (await this.getAllEntries())
+      .filter(entry => entry.sortKey !== undefined)
+      .sort((a, b) => b.sortKey! - a.sortKey! || (a.id < b.id ? 1 : a.id > b.id ? -1 : 0));
+
+    const remaining = cursor
+      ? ordered.filter(entry =>
+          entry.sortKey! < cursor.sortKey || (entry.sortKey === cursor.sortKey && entry.id < cursor.id)
+        )
+      : ordered;
+
+    const entries = remaining.slice(0, limit);
+    const last = entries[entries.length - 1];
+    return {
+      entries,
+      nextCursor: entries.length === limit && last
+        ? { sortKey: last.sortKey!, id: last.id }
+        : null,
+    };
+  }
+
+  // Chat sessions specific methods
+  async saveSession(session: ChatSession): Promise<void> {
+    return this.add(STORES.SESSIONS, session);
+  }
+
+  async getSession(id: string): Promise<ChatSession | undefined> {
+    return this.get<ChatSession>(STORES.SESSIONS, id);
+  }
+
+  async getAllSessions(): Promise<ChatSession[]> {
+    return this.getAll<ChatSession>(STORES.SESSIONS);
+  }
+
+  async updateSession(session: ChatSession): Promise<void> {
+    return this.update(STORES.SESSIONS, session);
+  }
+
+  async deleteSession(id: string): Promise<void> {
+    return this.delete(STORES.SESSIONS, id);
+  }
+
+  // Chat messages specific methods
+  async saveMessage(message: ChatMessage): Promise<void> {
+    return this.update(STORES.MESSAGES, message);
+  }
+
+  async getMessagesBySession(sessionId: string): Promise<ChatMessage[]> {
+    const messages = await this.runTransaction([STORES.MESSAGES], 'readonly', tx =>
+      tx.getAllByIndex<ChatMessage>(STORES.MESSAGES, 'sessionId', sessionId)
+    );
+    return messages.sort((a, b) => a.sequence - b.sequence);
+  }
+
+  async getAllMessages(): Promise<ChatMessage[]> {
+    return this.getAll<ChatMessage>(STORES.MESSAGES);
+  }
+
+  // Settings methods
+  async saveSetting(key: string, value: unknown): Promise<void> {
+    return this.add(STORES.SETTINGS, { key, value });
+  }
+
+  async getSetting(key: string): Promise<unknown> {
+    const result = await this.get<{ key: string; value: unknown }>(STORES.SETTINGS, key);
+    return result?.value;
+  }
+
+  async updateSetting(key: string, value: unknown): Promise<void> {
+    return this.update(STORES.SETTINGS, { key, value });
+  }
+
+  // Analysis cache methods
+  async getCachedAnalysis(key: string): Promise<CachedAnalysis | undefined> {
+    return this.get<CachedAnalysis>(STORES.ANALYSIS_CACHE, key);
+  }
+}
@@ -0,0 +1,262 @@
+// Versioned IndexedDB schema migrations
+import { STORES, ChatSession, JournalEntry } from './database';
+
+export interface MigrationContext {
+  db: IDBDatabase;
+  transaction: IDBTransaction; // The versionchange transaction opened by indexedDB.open()
+  oldVersion: number;
+}
+
+export interface Migration {
+  version: number;
+  description: string;
+  // Must only await IndexedDB requests made on `transaction`, otherwise the upgrade auto-commits early
+  migrate: (context: MigrationContext) => Promise<void>;
+}
+
+export type MigrationStatus = 'running' | 'completed' | 'failed' | 'blocked';
+
+export interface MigrationProgress {
+  status: MigrationStatus;
+  fromVersion: number;
+  toVersion: number;
+  currentVersion: number;
+  description?: string;
+  completed: number;
+  total: number;
+  error?: Error;
+}
+
+export type MigrationProgressListener = (progress: MigrationProgress) => void;
+
+export class MigrationError extends Error {
+  constructor(message: string, public readonly version: number, public readonly cause?: unknown) {
+    super(message);
+    this.name = 'MigrationError';
+  }
+}
+
+// Wrap an IDBRequest in a promise that settles inside the owning transaction
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Walk every record in a store, replacing it when the transform returns a new value
+export function updateEachRecord<T>(
+  store: IDBObjectStore,
+  transform: (record: T) => T | undefined
+): Promise<number> {
+  return new Promise((resolve, reject) => {
+    let updated = 0;
+    const request = store.openCursor();
+
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) {
+        resolve(updated);
+        return;
+      }
+
+      try {
+        const next = transform(cursor.value as T);
+        if (next !== undefined) {
+          cursor.update(next);
+          updated++;
+        }
+        cursor.continue();
+      } catch (error) {
+        reject(error);
+      }
+    };
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Sessions written before entryIds existed embedded full entries
+interface LegacyChatSession extends Omit<ChatSession, 'entryIds'> {
+  entries?: JournalEntry[];
+  entryIds?: string[];
+}
+
+// Ordered list of migrations; the last version is the current database version
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Create journal entries, chat sessions and settings stores',
+    async migrate({ db }) {
+      if (!db.objectStoreNames.contains(STORES.ENTRIES)) {
+        const entriesStore = db.createObjectStore(STORES.ENTRIES, { keyPath: 'id' });
+        entriesStore.createIndex('timestamp', 'timestamp', { unique: false });
+        entriesStore.createIndex('createdAt', 'createdAt', { unique: false });
+        entriesStore.createIndex('tags', 'tags', { unique: false, multiEntry: true });
+      }
+
+      if (!db.objectStoreNames.contains(STORES.SESSIONS)) {
+        const sessionsStore = db.createObjectStore(STORES.SESSIONS, { keyPath: 'id' });
+        sessionsStore.createIndex('startTime', 'startTime', { unique: false });
+      }
+
+      if (!db.objectStoreNames.contains(STORES.SETTINGS)) {
+        db.createObjectStore(STORES.SETTINGS, { keyPath: 'key' });
+      }
+    },
+  },
+  {
+    version: 2,
+    description: 'Convert chat sessions from embedded entries to entry ID references',
+    async migrate({ transaction }) {
+      const entryKeys = await requestToPromise(transaction.objectStore(STORES.ENTRIES).getAllKeys());
+      const existingEntryIds = new Set(entryKeys.map(key => String(key)));
+
+      const updatedSessions = await updateEachRecord<LegacyChatSession>(
+        transaction.objectStore(STORES.SESSIONS),
+        (session) => {
+          if (!Array.isArray(session.entries)) return undefined;
+
+          // Only keep references to entries that still exist in the entries store
+          const entryIds = session.entries
+            .map(entry => entry.id)
+            .filter(id => existingEntryIds.has(id));
+
+          const migrated: ChatSession = {
+            id: session.id,
+            entryIds: Array.from(new Set(entryIds)),
+            startTime: session.startTime,
+            endTime: session.endTime,
+            summary: session.summary,
+          };
+          return migrated;
+        }
+      );
+
+      console.log(`Migrated ${updatedSessions} chat sessions to entry ID references`);
+    },
+  },
+  {
+    version: 3,
+    description: 'Add chat messages store for full conversation transcripts',
+    async migrate({ db }) {
+      if (!db.objectStoreNames.contains(STORES.MESSAGES)) {
+        const messagesStore = db.createObjectStore(STORES.MESSAGES, { keyPath: 'id' });
+        messagesStore.createIndex('sessionId', 'sessionId', { unique: false });
+        messagesStore.createIndex('entryId', 'entryId', { unique: false });
+      }
+    },
+  },
+  {
+    version: 4,
+    description: 'Replace metadata indexes with a sort key and blind tag index that work on sealed entries',
+    async migrate({ transaction }) {
+      const entriesStore = transaction.objectStore(STORES.ENTRIES);
+
+      // Existing entries keep their order: the sort key starts out as the timestamp
+      const backfilled = await updateEachRecord<JournalEntry>(entriesStore, (entry) => {
+        if (entry.sortKey !== undefined) return undefined;
+        return { ...entry, sortKey: new Date(entry.timestamp).getTime() };
+      });
+
+      entriesStore.createIndex('sortKey', 'sortKey', { unique: false });
+      entriesStore.createIndex('tagTokens', 'tagTokens', { unique: false, multiEntry: true });
+      for (const indexName of ['timestamp', 'createdAt', 'tags']) {
+        if (entriesStore.indexNames.contains(indexName)) {
+          entriesStore.deleteIndex(indexName);
+        }
+      }
+
+      // Sessions are few and sorted after decryption, so startTime needs no replacement
+      const sessionsStore = transaction.objectStore(STORES.SESSIONS);
+      if (sessionsStore.indexNames.contains('startTime')) {
+        sessionsStore.deleteIndex('startTime');
+      }
+
+      console.log(`Added sort keys to ${backfilled} journal entries`);
+    },
+  },
+  {
+    version: 5,
+    description: 'Add blind keyword index for searching encrypted entries',
+    async migrate({ transaction }) {
+      // Tokens need the journal key, so existing entries are indexed on their first search
+      const entriesStore = transaction.objectStore(STORES.ENTRIES);
+      if (!entriesStore.indexNames.contains('wordTokens')) {
+        entriesStore.createIndex('wordTokens', 'wordTokens', { unique: false, multiEntry: true });
+      }
+    },
+  },
+  {
+    version: 6,
+    description: 'Add analysis cache store so results survive reloads',
+    async migrate({ db }) {
+      if (!db.objectStoreNames.contains(STORES.ANALYSIS_CACHE)) {
+        const cacheStore = db.createObjectStore(STORES.ANALYSIS_CACHE, { keyPath: 'key' });
+        cacheStore.createIndex('analysisType', 'analysisType', { unique: false });
+      }
+    },
+  },
+  {
+    version: 7,
+    description: 'Drop plaintext analysis from encrypted entries',
+    async migrate({ transaction }) {
+      // Encrypting it needs the journal key, so it is dropped and the entries are scored again once unlocked
+      const cleared = await updateEachRecord<JournalEntry>(transaction.objectStore(STORES.ENTRIES), (entry) => {
+        if (!entry.encrypted || entry.metadataEncrypted) return undefined;
+        const analysis = [entry.sentimentScore, entry.themes, entry.analysisTimestamp, entry.analysisVersion, entry.themesVersion];
+        if (analysis.every(field => field === undefined)) {
+          return undefined;
+        }
+        return {
+          ...entry,
+          sentimentScore: undefined,
+          themes: undefined,
+          analysisTimestamp: undefined,
+          analysisVersion: undefined,
+          themesVersion: undefined,
+        };
+      });
+
+      console.log(`Cleared plaintext analysis from ${cleared} encrypted entries`);
+    },
+  },
+];
+
+export const LATEST_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+// Run every migration newer than oldVersion, in order, inside the upgrade transaction
+export async function runMigrations(
+  context: MigrationContext,
+  onProgress: MigrationProgressListener
+): Promise<void> {
+  const pending = MIGRATIONS
+    .filter(migration => migration.version > context.oldVersion && migration.version <= LATEST_VERSION)
+    .sort((a, b) => a.version - b.version);
+
+  const base = {
+    fromVersion: context.oldVersion,
+    toVersion: LATEST_VERSION,
+    total: pending.length,
+  };
+
+  for (let i = 0; i < pending.length; i++) {
+    const migration = pending[i];
+    onProgress({
+      ...base,
+      status: 'running',
+      currentVersion: migration.version,
+      description: migration.description,
+      completed: i,
+    });
+
+    try {
+      await migration.migrate(context);
+    } catch (error) {
+      throw new MigrationError(
+        `Migration to version ${migration.version} failed: ${migration.description}`,
+        migration.version,
+        error
+      );
+    }
+  }
+}
@@ -0,0 +1,119 @@
+// Strip personal details from text before it is sent to an AI provider
+export type RedactionCategory = 'email' | 'phone' | 'address' | 'number' | 'name';
+
+export type RedactionCounts = Record<RedactionCategory, number>;
+
+export interface RedactionResult {
+  text: string;
+  counts: RedactionCounts;
+}
+
+const PLACEHOLDERS: Record<RedactionCategory, string> = {
+  email: '[EMAIL]',
+  phone: '[PHONE]',
+  address: '[ADDRESS]',
+  number: '[NUMBER]',
+  name: '[NAME]',
+};
+
+const EMAIL_PATTERN = /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g;
+const PHONE_PATTERN = /(?:\+\d{1,3}[\s.-]?)?(?:\(\d{1,4}\)[\s.-]?)?\d[\d\s.-]{5,}\d/g;
+const MIN_PHONE_DIGITS = 7;
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const ADDRESS_PATTERN = /\b\d{1,5}\s+(?:\p{Lu}[\p{Ll}'-]*\s+){1,3}(?:Street|St|Avenue|Ave|Road|Rd|Boulevard|Blvd|Lane|Ln|Drive|Dr|Court|Ct|Way|Place|Pl|Terrace|Close|Crescent)\b/gu;
+const NUMBER_PATTERN = /\d+(?:[.,:/-]\d+)*/g;
+const CAPITALIZED_WORD_PATTERN = /\p{Lu}[\p{Ll}'’-]+/gu;
+const SENTENCE_END_PATTERN = /[.!?\n][\s"“‘'(]*$/;
+
+// Capitalized words that are rarely identifying
+const COMMON_CAPITALIZED = new Set([
+  "I'm", "I've", "I'll", "I'd", 'I’m', 'I’ve', 'I’ll', 'I’d',
+  'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday',
+  'January', 'February', 'March', 'April', 'May', 'June', 'July', 'August',
+  'September', 'October', 'November', 'December',
+  'Mr', 'Mrs', 'Ms', 'Dr', 'Mom', 'Mum', 'Dad', 'Grandma', 'Grandpa',
+]);
+
+// Everyday words that often start a sentence; any other capitalized word there is taken for a name
+const COMMON_WORDS = new Set(`
+a about above after again against all almost already also although always am an and another any anyone anything
+anyway are around as at away back bad be because been before being below best better between both but by can
+could did do does doing done down during each early either else enough even evening ever every everyone
+everything few finally first for from further getting given going gone good got great had half happy hard has
+have having he her here hers herself him himself his honestly hopefully how however i if in instead into is it
+its itself just last lately later least less let lots made maybe me meanwhile might mine more morning most
+much must my myself never next night no nobody none nor not nothing now of off often oh ok okay on once one only
+or other others otherwise our ours ourselves out over overall perhaps probably quite rather really right same
+she should since so some somebody someone something sometimes somehow soon still such sure than thank thanks
+that the their theirs them themselves then there therefore these they things this those though through thus
+to today together tomorrow tonight too toward towards under unfortunately until up us usually very was we
+well were what whatever when whenever where whether which while who whoever whole why will with within without
+would wow yay yeah yes yesterday yet you your yours yourself
+able add added almost ask asked ate bought brought called came can't couldn't did didn't doesn't don't drove
+enjoyed ended feel feeling feels fell felt finished found gave get gets go goes had hadn't has hasn't have
+haven't heard hope hoping i'd i'll i'm i've isn't it's keep kept knew know learned left let's like liked
+listened looked looking lost love loved made make making managed met missed need needed noticed paid played
+put read realized remembered said sat saw see seems slept spent spoke started stayed still stopped talked
+taught that's there's thought tired told took tried trying turned wanted was wasn't watched went weren't
+woke won't worked working worried would wouldn't wrote
+afternoon anxiety birthday body breakfast day days dinner dream dreams exercise family food friends gym home
+hour hours house job life lunch meeting meetings mind minutes money month mood music nap people plans rain
+running school sleep stress sun talking things time traffic walk walking weather week weekend work workout
+writing year
+`.split(/\s+/).filter(Boolean));
+
+export function emptyRedactionCounts(): RedactionCounts {
+  return { email: 0, phone: 0, address: 0, number: 0, name: 0 };
+}
+
+// Capitalized words mid-sentence are treated as names, and so are those starting a sentence
+// unless they are everyday words; once seen, a name is redacted everywhere it appears
+function findNames(text: string): Set<string> {
+  const names = new Set<string>();
+  for (const match of text.matchAll(CAPITALIZED_WORD_PATTERN)) {
+    const word = match[0];
+    const offset = match.index ?? 0;
+    if (COMMON_CAPITALIZED.has(word)) continue;
+
+    const before = text.slice(Math.max(0, offset - 20), offset);
+    const startsSentence = SENTENCE_END_PATTERN.test(before) || (offset <= 20 && /^[\s"“‘'(]*$/.test(before));
+    if (!startsSentence || !COMMON_WORDS.has(word.toLowerCase().replace(/’/g, "'"))) {
+      names.add(word);
+    }
+  }
+  return names;
+}
+
+// Heuristic, so it errs towards redacting: emails, phone numbers, street addresses, any
+// remaining numbers, then names
+export function redactText(text: string): RedactionResult {
+  const counts = emptyRedactionCounts();
+  const replace = (category: RedactionCategory) => {
+    counts[category]++;
+    return PLACEHOLDERS[category];
+  };
+
+  let redacted = text
+    .replace(EMAIL_PATTERN, () => replace('email'))
+    .replace(PHONE_PATTERN, (match) => {
+      const digits = match.replace(/\D/g, '').length;
+      return digits >= MIN_PHONE_DIGITS && !ISO_DATE_PATTERN.test(match) ? replace('phone') : match;
+    })
+    .replace(ADDRESS_PATTERN, () => replace('address'))
+    .replace(NUMBER_PATTERN, () => replace('number'));
+
+  const names = findNames(redacted);
+  if (names.size > 0) {
+    redacted = redacted.replace(CAPITALIZED_WORD_PATTERN, (word) => names.has(word) ? replace('name') : word);
+  }
+
+  return { text: redacted, counts };
+}
+
+export function addRedactionCounts(total: RedactionCounts, counts: RedactionCounts): RedactionCounts {
+  const sum = { ...total };
+  for (const category of Object.keys(sum) as RedactionCategory[]) {
+    sum[category] += counts[category];
+  }
+  return sum;
+}
@@ -0,0 +1,28 @@
+// Keyword normalization for search; entries and queries go through the same steps so their
+// blind tokens match
+const MIN_WORD_LENGTH = 2;
+
+// Lowercased with accents removed, e.g. "Café" -> "cafe"
+function normalizeSearchText(text: string): string {
+  return text.normalize('NFKD').replace(/\p{M}/gu, '').toLowerCase();
+}
+
+// Unique lowercased words with accents removed, e.g. "Café, CAFE!" -> ["cafe"]
+export function extractSearchWords(text: string): string[] {
+  const words = normalizeSearchText(text)
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(word => word.length >= MIN_WORD_LENGTH);
+  return Array.from(new Set(words));
+}
+
+// Words an entry can be found by: its text and its tags
+export function getEntrySearchWords(content: string, tags: string[] = []): string[] {
+  return extractSearchWords([content, ...tags].join(' '));
+}
+
+// Readable entries match each query word anywhere in their text or tags ("run" finds "running");
+// blind tokens can only match whole words
+export function matchesSearchWords(content: string, tags: string[] = [], words: string[]): boolean {
+  const text = normalizeSearchText([content, ...tags].join('\n'));
+  return words.every(word => text.includes(word));
+}
@@ -0,0 +1,275 @@
+// Offline sentiment scoring: a weighted lexicon with negation, intensifiers and emoji, scored
+// sentence by sentence. Scores are in [-1, 1].
+export type SentimentLabel = 'positive' | 'negative' | 'neutral';
+
+export interface SentimentScore {
+  score: number; // -1 to 1
+  label: SentimentLabel;
+  confidence: number; // 0 to 1; grows with the amount of evidence and how much it agrees
+  evidence: number; // Sentiment-bearing words and emoji found
+}
+
+// Word valences from -4 (most negative) to 4 (most positive)
+const WORD_VALENCES: Record<string, number> = {
+  // Positive
+  happy: 2.7, happier: 2.8, happiest: 3.1, happiness: 2.6, glad: 2, joy: 2.8, joyful: 2.9,
+  cheerful: 2.5, delighted: 3, thrilled: 3.2, excited: 2.2, exciting: 2.2, excitement: 2.2,
+  love: 3.2, loved: 2.9, lovely: 2.8, loving: 2.9, adore: 2.9, liked: 1.5, enjoy: 2.2, enjoyed: 2.3,
+  good: 1.9, great: 3.1, amazing: 2.8, awesome: 3.1, wonderful: 2.7, fantastic: 2.6, excellent: 2.7,
+  brilliant: 2.8, beautiful: 2.9, perfect: 2.7, nice: 1.8, fine: 0.8, okay: 0.6, ok: 0.6, alright: 0.8,
+  fun: 2.3, funny: 1.9, laugh: 2.2, laughed: 2, laughing: 2.2, smile: 1.5, smiled: 1.5, smiling: 1.5,
+  grateful: 2.5, gratitude: 2.4, thankful: 2.4, thanks: 1.9, blessed: 2.3, lucky: 1.8, fortunate: 1.9,
+  proud: 2.1, accomplished: 1.8, achievement: 1.7, success: 2.7, successful: 2.8, win: 2.8, won: 2.7,
+  peaceful: 2.2, peace: 2.5, calm: 1.3, relaxed: 2.2, relaxing: 2.2, relief: 1.6, relieved: 1.6,
+  satisfied: 1.8, comfortable: 1.5, safe: 1.9, confident: 2.2, hopeful: 1.9, hope: 1.9,
+  optimistic: 2.2, motivated: 1.9, inspired: 2.2, inspiring: 2.2, energized: 1.9, energetic: 1.8,
+  productive: 1.6, progress: 1.5, better: 1.9, best: 3.2, improved: 1.9, support: 1.7,
+  supportive: 2.1, friendly: 2.2, warm: 0.9, cozy: 1.6, fresh: 1.3, free: 1.2, celebrate: 2.7,
+  celebrated: 2.7, celebration: 2.7, fulfilling: 2.4, meaningful: 1.9, rewarding: 2.3, pleasant: 2.3,
+  positive: 2.3, wow: 2.8, yay: 2.4, welcome: 2, appreciated: 2.3, appreciate: 2.3,
+
+  // Negative
+  sad: -2.1, sadder: -2.2, saddest: -2.5, sadness: -1.9, unhappy: -1.8, miserable: -2.7,
+  depressed: -2.3, depressing: -2.4, depression: -2.7, low: -1.1,
+  cry: -2.1, cried: -2.1, crying: -2.1, tears: -0.9, hurt: -2.4, hurting: -2.4, pain: -2.3, painful: -2.4,
+  bad: -2.5, worse: -2.1, worst: -3.1, terrible: -2.5, awful: -2, horrible: -2.5, dreadful: -2.5,
+  hate: -2.7, hated: -3.2, angry: -2.3, anger: -2.7, mad: -2.2, furious: -2.9, annoyed: -1.6,
+  annoying: -1.7, irritated: -1.8, frustrated: -2, frustrating: -1.9, frustration: -2.1,
+  upset: -1.6, worried: -1.2, worry: -1.9, worrying: -1.4, anxious: -1, anxiety: -0.7, nervous: -1.1,
+  scared: -2.2, afraid: -2, fear: -2.2, terrified: -3, panic: -2.3, stressed: -1.4, stress: -1.8,
+  stressful: -2, overwhelmed: -1.5, overwhelming: -1.6, exhausted: -1.5, exhausting: -1.5, tired: -1.3,
+  drained: -1.5, burnt: -1.2, burnout: -2, sick: -2.3, ill: -1.8, lonely: -1.5, alone: -1, lost: -1.3,
+  disappointed: -1.9, disappointing: -2.2, disappointment: -2.3, regret: -1.9, guilty: -1.8, guilt: -1.1,
+  ashamed: -2.1, shame: -2.5, embarrassed: -1.5, jealous: -2, bored: -1.1, boring: -1.3, confused: -1.3,
+  hopeless: -2, helpless: -2, useless: -1.8, worthless: -1.9, failed: -2.3, failure: -2.3, fail: -2.5,
+  struggle: -1.5, struggling: -1.4, difficult: -1.5, hard: -0.4, problem: -1.7, problems: -1.7,
+  awkward: -0.6, ugly: -2.3, broken: -1.9, grief: -2.2, grieving: -2.3, loss: -1.3, miss: -0.6,
+  missed: -1.2, dread: -2, sucks: -1.5, argument: -1.5, fight: -1.6, fought: -1.5,
+  nightmare: -2.5, disaster: -3.1, ruined: -2.4, negative: -2.7, ugh: -1.8,
+};
+
+// Valences for emoji, on the same scale as words
+const EMOJI_VALENCES: Record<string, number> = {
+  '😀': 2.2, '😃': 2.3, '😄': 2.5, '😁': 2.3, '😆': 2.2, '😂': 1.8, '🤣': 1.9, '🙂': 1.2, '😊': 2.4,
+  '😇': 2, '🥰': 3, '😍': 3, '🤩': 3, '😘': 2.5, '😌': 1.6, '😎': 1.8, '🥳': 3, '🤗': 2.2, '😋': 1.8,
+  '❤': 3, '💕': 2.9, '💖': 2.9, '💗': 2.8, '💙': 2.5, '💚': 2.5, '💛': 2.5, '💜': 2.5, '🧡': 2.5,
+  '👍': 1.6, '👏': 1.9, '🙌': 2.2, '🙏': 1.5, '💪': 1.6, '🎉': 2.6, '🎊': 2.5, '✨': 1.3, '🌟': 1.8,
+  '⭐': 1.5, '☀': 1.3, '🌈': 1.8, '🌞': 1.8, '✅': 1.2, '🏆': 2.4,
+  '😐': -0.2, '😕': -1.2, '🙁': -1.5, '☹': -1.8, '😟': -1.6, '😞': -2, '😔': -1.9, '😢': -2.2,
+  '😭': -2.5, '😿': -2, '😩': -2, '😫': -2, '😖': -2, '😣': -1.8, '😥': -1.6, '😰': -2.1, '😨': -2.1,
+  '😱': -2.2, '😬': -1, '😓': -1.5, '😒': -1.6, '🙄': -1.3, '😤': -1.6, '😠': -2.5, '😡': -2.9,
+  '🤬': -3.1, '💔': -2.9, '😴': -0.4, '🥱': -0.6, '🤒': -1.7, '🤕': -1.7, '🤢': -2, '🤮': -2.3,
+  '😷': -1, '👎': -1.6, '😪': -1.2, '🥺': -0.8, '😶': -0.3,
+};
+
+// Valence added to (or, for dampeners, taken from) the word that follows
+const INTENSITY_STEP = 0.293;
+const BOOSTERS = new Set([
+  'very', 'really', 'so', 'extremely', 'incredibly', 'super', 'totally', 'absolutely', 'completely',
+  'utterly', 'truly', 'deeply', 'especially', 'particularly', 'hugely', 'terribly', 'insanely',
+  'seriously', 'too', 'most', 'more', 'quite', 'such',
+]);
+const DAMPENERS = new Set([
+  'slightly', 'somewhat', 'kinda', 'sorta', 'barely', 'hardly', 'marginally', 'mildly', 'partly',
+  'fairly', 'less', 'little',
+]);
+// Two-word dampeners, keyed by their second word
+const DAMPENER_PHRASES = new Map<string, string[]>([
+  ['of', ['kind', 'sort']],
+  ['bit', ['a']],
+  ['little', ['a']],
+]);
+
+const NEGATIONS = new Set([
+  'not', 'no', 'never', 'nothing', 'nobody', 'none', 'neither', 'nor', 'nowhere', 'without',
+  'cannot', 'cant', 'dont', 'didnt', 'doesnt', 'isnt', 'wasnt', 'werent', 'arent', 'wont',
+  'wouldnt', 'couldnt', 'shouldnt', 'havent', 'hasnt', 'hadnt', 'aint',
+]);
+// Words within this many tokens after a negation are negated
+const NEGATION_SCOPE = 3;
+// Negation flips and softens: "not happy" is negative, but less so than "sad"
+const NEGATION_SCALAR = -0.74;
+
+// Contrast shifts weight to what follows: "it was fine but I'm exhausted"
+const CONTRAST_WORDS = new Set(['but', 'however', 'although', 'though', 'yet']);
+const BEFORE_CONTRAST_WEIGHT = 0.5;
+const AFTER_CONTRAST_WEIGHT = 1.5;
+
+const CAPS_EMPHASIS = 0.733;
+const EXCLAMATION_STEP = 0.292;
+const MAX_EXCLAMATIONS = 3;
+
+// Normalizes a raw sum into [-1, 1]; larger values need more evidence to approach the ends
+const NORMALIZATION_ALPHA = 15;
+// Entries need about this many sentiment-bearing tokens for confidence to pass ~0.6
+const EVIDENCE_SCALE = 4;
+const NEUTRAL_THRESHOLD = 0.1;
+
+const TOKEN_PATTERN = /\p{Extended_Pictographic}|[\p{L}\p{N}]+(?:['’]\p{L}+)*/gu;
+const SENTENCE_PATTERN = /[^.!?\n]+[.!?]*/g;
+
+interface SentenceScore {
+  sum: number;
+  positive: number;
+  negative: number;
+  hits: number;
+}
+
+export function classifySentiment(score: number): SentimentLabel {
+  return score > NEUTRAL_THRESHOLD ? 'positive' : score < -NEUTRAL_THRESHOLD ? 'negative' : 'neutral';
+}
+
+function normalizeScore(sum: number): number {
+  return sum / Math.sqrt(sum * sum + NORMALIZATION_ALPHA);
+}
+
+// Tokens like "constructor" must not hit Object.prototype
+function hasOwn(record: object, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(record, key);
+}
+
+// Lowercase without apostrophes, so "Don't" and "dont" are the same token
+function normalizeToken(token: string): string {
+  return token.toLowerCase().replace(/['’]/g, '');
+}
+
+// Word lexicon lookup with a fallback for plain inflections ("hopes", "worrying", "sadly")
+export function lookupWord<T>(lexicon: Record<string, T>, word: string): T | undefined {
+  if (hasOwn(lexicon, word)) return lexicon[word];
+
+  for (const suffix of ['s', 'es', 'ed', 'd', 'ing', 'ly', 'ness']) {
+    const stem = word.slice(0, -suffix.length);
+    if (word.endsWith(suffix) && stem.length >= 3 && hasOwn(lexicon, stem)) {
+      return lexicon[stem];
+    }
+  }
+  return undefined;
+}
+
+function lookupValence(reading: TokenReading): number | undefined {
+  if (hasOwn(EMOJI_VALENCES, reading.token)) return EMOJI_VALENCES[reading.token];
+  return lookupWord(WORD_VALENCES, reading.word);
+}
+
+// Listed negations plus any other "n't" contraction
+function isNegation(token: string, word: string): boolean {
+  return NEGATIONS.has(word) || /n['’]t$/i.test(token);
+}
+
+// Intensity change from the modifier at `index`, if it is one
+function modifierAt(words: string[], index: number): number {
+  const word = words[index];
+  if (BOOSTERS.has(word)) return INTENSITY_STEP;
+  if (DAMPENER_PHRASES.get(word)?.includes(words[index - 1])) return -INTENSITY_STEP;
+  if (DAMPENERS.has(word)) return -INTENSITY_STEP;
+  return 0;
+}
+
+// A word or emoji as it reads in its sentence
+export interface TokenReading {
+  token: string; // As written
+  word: string; // Lowercased, apostrophes removed
+  negated: boolean;
+  intensity: number; // Booster (+) and dampener (-) steps from the two words before it
+  contrast: 'before' | 'after' | null; // Position relative to the sentence's last "but"
+}
+
+// The text's sentences; `emojis` not already in the text count as one more
+export function splitSentences(text: string, emojis: string[] = []): string[] {
+  const extraEmojis = emojis.filter(emoji => !text.includes(emoji));
+  return [...(text.match(SENTENCE_PATTERN) ?? []), ...(extraEmojis.length > 0 ? [extraEmojis.join(' ')] : [])];
+}
+
+// Negation and contrast words only shape the tokens around them, so they are left out
+export function readSentence(sentence: string): TokenReading[] {
+  const tokens = sentence.match(TOKEN_PATTERN) ?? [];
+  const words = tokens.map(normalizeToken);
+  const lastContrast = words.reduce((last, word, index) => (CONTRAST_WORDS.has(word) ? index : last), -1);
+  const readings: TokenReading[] = [];
+  let negatedThrough = -1;
+
+  tokens.forEach((token, index) => {
+    const word = words[index];
+    if (isNegation(token, word)) {
+      negatedThrough = index + NEGATION_SCOPE;
+      return;
+    }
+    if (CONTRAST_WORDS.has(word)) {
+      negatedThrough = -1;
+      return;
+    }
+
+    readings.push({
+      token,
+      word,
+      negated: index <= negatedThrough,
+      // "very happy", "kind of sad"; the word two back counts slightly less
+      intensity: modifierAt(words, index - 1) + modifierAt(words, index - 2) * 0.95,
+      contrast: lastContrast < 0 ? null : index < lastContrast ? 'before' : 'after',
+    });
+  });
+  return readings;
+}
+
+function scoreSentence(sentence: string, textIsShouted: boolean): SentenceScore {
+  const valences = readSentence(sentence).flatMap(reading => {
+    let valence = lookupValence(reading);
+    if (valence === undefined) return [];
+    const direction = Math.sign(valence);
+    valence += direction * reading.intensity;
+
+    // Shouting a single word adds emphasis, unless the whole entry is in capitals
+    const { token } = reading;
+    if (!textIsShouted && token.length > 1 && /\p{Lu}/u.test(token) && token === token.toUpperCase()) {
+      valence += direction * CAPS_EMPHASIS;
+    }
+
+    if (reading.negated) {
+      valence *= NEGATION_SCALAR;
+    }
+    if (reading.contrast) {
+      valence *= reading.contrast === 'before' ? BEFORE_CONTRAST_WEIGHT : AFTER_CONTRAST_WEIGHT;
+    }
+    return [valence];
+  });
+
+  let sum = valences.reduce((total, valence) => total + valence, 0);
+  if (sum !== 0) {
+    const exclamations = Math.min((sentence.match(/!/g) ?? []).length, MAX_EXCLAMATIONS);
+    sum += Math.sign(sum) * exclamations * EXCLAMATION_STEP;
+  }
+
+  return {
+    sum,
+    positive: valences.filter(valence => valence > 0).reduce((total, valence) => total + valence, 0),
+    negative: -valences.filter(valence => valence < 0).reduce((total, valence) => total + valence, 0),
+    hits: valences.length,
+  };
+}
+
+// Score a text sentence by sentence; the entry score is the mean of its sentence scores,
+// weighted by how much sentiment each sentence carries. `emojis` not already in the text
+// count as one more sentence.
+export function analyzeSentiment(text: string, emojis: string[] = []): SentimentScore {
+  const textIsShouted = !/\p{Ll}/u.test(text) && /\p{Lu}/u.test(text);
+  const scored = splitSentences(text, emojis).map(sentence => scoreSentence(sentence, textIsShouted)).filter(sentence => sentence.hits > 0);
+  const evidence = scored.reduce((total, sentence) => total + sentence.hits, 0);
+  if (evidence === 0) {
+    return { score: 0, label: 'neutral', confidence: 0, evidence: 0 };
+  }
+
+  const score = scored.reduce((total, sentence) => total + normalizeScore(sentence.sum) * sentence.hits, 0) / evidence;
+  const positive = scored.reduce((total, sentence) => total + sentence.positive, 0);
+  const negative = scored.reduce((total, sentence) => total + sentence.negative, 0);
+
+  // Mixed feelings lower confidence as much as thin evidence does
+  const agreement = positive + negative > 0 ? Math.abs(positive - negative) / (positive + negative) : 0;
+  const confidence = (1 - Math.exp(-evidence / EVIDENCE_SCALE)) * (0.5 + 0.5 * agreement);
+
+  return {
+    score: Math.max(-1, Math.min(1, score)),
+    label: classifySentiment(score),
+    confidence: Math.round(confidence * 100) / 100,
+    evidence,
+  };
+}
@@ -0,0 +1,94 @@
+// Last-second session saves sent with navigator.sendBeacon and reconciled on the next load
+export const SESSION_BEACON_ENDPOINT = '/api/save-session';
+
+const CLIENT_ID_KEY = 'vibe_journal_client_id';
+const MAX_ENTRY_IDS = 1000;
+const MAX_ID_LENGTH = 128;
+
+// Only identifiers and times travel to the server, never journal content
+export interface SessionBeaconPayload {
+  clientId: string;
+  sessionId: string;
+  entryIds: string[];
+  startTime: string; // ISO 8601
+  endTime: string; // ISO 8601
+}
+
+export type SessionBeaconValidation =
+  | { ok: true; payload: SessionBeaconPayload }
+  | { ok: false; error: string };
+
+const isId = (value: unknown): value is string =>
+  typeof value === 'string' && value.length > 0 && value.length <= MAX_ID_LENGTH;
+
+const isIsoDate = (value: unknown): value is string =>
+  typeof value === 'string' && !Number.isNaN(Date.parse(value));
+
+export function validateSessionBeaconPayload(data: unknown): SessionBeaconValidation {
+  if (typeof data !== 'object' || data === null) {
+    return { ok: false, error: 'Payload must be a JSON object' };
+  }
+
+  const { clientId, sessionId, entryIds, startTime, endTime } = data as Record<string, unknown>;
+
+  if (!isId(clientId)) return { ok: false, error: 'clientId is required' };
+  if (!isId(sessionId)) return { ok: false, error: 'sessionId is required' };
+  if (!Array.isArray(entryIds) || entryIds.length > MAX_ENTRY_IDS || !entryIds.every(isId)) {
+    return { ok: false, error: `entryIds must be an array of at most ${MAX_ENTRY_IDS} IDs` };
+  }
+  if (!isIsoDate(startTime)) return { ok: false, error: 'startTime must be an ISO date' };
+  if (!isIsoDate(endTime)) return { ok: false, error: 'endTime must be an ISO date' };
+
+  return {
+    ok: true,
+    payload: { clientId, sessionId, entryIds: entryIds as string[], startTime, endTime },
+  };
+}
+
+// Stable per-browser id so the server only hands snapshots back to the tab profile that sent them
+export function getBeaconClientId(): string {
+  const stored = localStorage.getItem(CLIENT_ID_KEY);
+  if (stored) return stored;
+
+  const clientId = crypto.randomUUID();
+  localStorage.setItem(CLIENT_ID_KEY, clientId);
+  return clientId;
+}
+
+export function sendSessionBeacon(snapshot: Omit<SessionBeaconPayload, 'clientId'>): boolean {
+  const payload: SessionBeaconPayload = { clientId: getBeaconClientId(), ...snapshot };
+  return navigator.sendBeacon(SESSION_BEACON_ENDPOINT, JSON.stringify(payload));
+}
+
+// Fetch snapshots the server received since the last visit, apply them, then acknowledge them
+export async function reconcilePendingSessions(
+  apply: (payload: SessionBeaconPayload) => Promise<void>
+): Promise<number> {
+  const clientId = getBeaconClientId();
+  const response = await fetch(`${SESSION_BEACON_ENDPOINT}?clientId=${encodeURIComponent(clientId)}`);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch pending sessions: ${response.status}`);
+  }
+
+  const { sessions } = await response.json() as { sessions: SessionBeaconPayload[] };
+  if (!Array.isArray(sessions) || sessions.length === 0) return 0;
+
+  const applied: string[] = [];
+  for (const session of sessions) {
+    const validation = validateSessionBeaconPayload(session);
+    if (!validation.ok) {
+      console.warn('Skipping invalid pending session:', validation.error);
+      continue;
+    }
+    await apply(validation.payload);
+    applied.push(validation.payload.sessionId);
+  }
+
+  await fetch(SESSION_BEACON_ENDPOINT, {
+    method: 'DELETE',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ clientId, sessionIds: applied }),
+  });
+
+  return applied.length;
+}
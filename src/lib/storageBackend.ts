@@ -0,0 +1,71 @@
+// Storage backend contract shared by IndexedDB and in-memory implementations
+import { JournalEntry, ChatSession, ChatMessage, CachedAnalysis, EntryPage, EntryPageCursor } from './database';
+import { MigrationProgressListener } from './migrations';
+
+export type TransactionMode = 'readonly' | 'readwrite';
+
+// Operations available inside a multi-store transaction started with runTransaction()
+export interface StoreTransaction {
+  get<T>(storeName: string, key: string): Promise<T | undefined>;
+  getAll<T>(storeName: string): Promise<T[]>;
+  add<T>(storeName: string, data: T): Promise<void>;
+  put<T>(storeName: string, data: T): Promise<void>;
+  delete(storeName: string, key: string): Promise<void>;
+  clear(storeName: string): Promise<void>;
+  getAllByIndex<T>(storeName: string, indexName: string, key: IDBValidKey): Promise<T[]>;
+  // Primary keys only, so matches can be narrowed down before any record is read
+  getKeysByIndex(storeName: string, indexName: string, key: IDBValidKey): Promise<string[]>;
+}
+
+export interface StorageBackend {
+  init(): Promise<void>;
+  // Erase every store; init() afterwards starts from an empty database
+  destroy(): Promise<void>;
+  onMigrationProgress(listener: MigrationProgressListener): () => void;
+
+  // Atomic multi-store work; commits when `work` resolves, rolls back if it throws
+  runTransaction<T>(
+    storeNames: string[],
+    mode: TransactionMode,
+    work: (tx: StoreTransaction) => Promise<T>
+  ): Promise<T>;
+  putMany<T>(storeName: string, records: T[]): Promise<void>;
+  deleteMany(storeName: string, keys: string[]): Promise<void>;
+
+  // Generic CRUD operations
+  add<T>(storeName: string, data: T): Promise<void>;
+  get<T>(storeName: string, key: string): Promise<T | undefined>;
+  getAll<T>(storeName: string): Promise<T[]>;
+  update<T>(storeName: string, data: T): Promise<void>;
+  delete(storeName: string, key: string): Promise<void>;
+
+  // Journal entries
+  saveEntry(entry: JournalEntry): Promise<void>;
+  getEntry(id: string): Promise<JournalEntry | undefined>;
+  getAllEntries(): Promise<JournalEntry[]>;
+  updateEntry(entry: JournalEntry): Promise<void>;
+  deleteEntry(id: string): Promise<void>;
+  getEntriesByDateRange(startDate: Date, endDate: Date): Promise<JournalEntry[]>;
+  countEntries(): Promise<number>;
+  getEntriesPage(limit: number, cursor?: EntryPageCursor | null): Promise<EntryPage>;
+
+  // Chat sessions
+  saveSession(session: ChatSession): Promise<void>;
+  getSession(id: string): Promise<ChatSession | undefined>;
+  getAllSessions(): Promise<ChatSession[]>;
+  updateSession(session: ChatSession): Promise<void>;
+  deleteSession(id: string): Promise<void>;
+
+  // Chat messages
+  saveMessage(message: ChatMessage): Promise<void>;
+  getMessagesBySession(sessionId: string): Promise<ChatMessage[]>;
+  getAllMessages(): Promise<ChatMessage[]>;
+
+  // Settings
+  saveSetting(key: string, value: unknown): Promise<void>;
+  getSetting(key: string): Promise<unknown>;
+  updateSetting(key: string, value: unknown): Promise<void>;
+
+  // Analysis cache
+  getCachedAnalysis(key: string): Promise<CachedAnalysis | undefined>;
+}
@@ -1,14 +1,60 @@
 // Comprehensive storage service combining IndexedDB and encryption
-import { dbManager, JournalEntry, ChatSession } from './database';
-import { encryptionManager } from './encryption';
-import { aiService } from './aiService';
+import { dbManager, JournalEntry, ChatSession, ChatMessage, CachedAnalysis, STORES, EntryPage, EntryPageCursor } from './database';
+import { StorageBackend } from './storageBackend';
+import {
+  encryptionManager,
+  JournalLockedError,
+  generateEncryptionKey,
+  wrapDataKey,
+  unwrapDataKey,
+  decryptJournalEntry,
+  decryptChatMessage,
+  encryptChatMessage,
+  encryptJournalContent,
+  sealJournalEntry,
+  sealChatSession,
+  openChatSession,
+  generateIndexKey,
+  sealIndexKey,
+  openIndexKey,
+  blindToken,
+  generateRecoveryKey,
+  normalizeRecoveryKey,
+  calibrateKdfIterations,
+  needsKdfUpgrade,
+  KdfParams,
+  LEGACY_KDF_ITERATIONS,
+  LEGACY_SALT_STORAGE_KEY,
+  KeyEnvelope,
+  StoredKeyEnvelope,
+  PasswordVerifier,
+  SealedIndexKey,
+  WrongPasswordError,
+} from './encryption';
+import {
+  aiService,
+  needsEntryAnalysis,
+  needsThemeAnalysis,
+  AIAnalysisResult,
+  AnalysisType,
+  EntryAnalysis,
+  EntryThemes,
+} from './aiService';
+import { AIProviderConfig, DEFAULT_AI_PROVIDER_CONFIG, isAIProviderConfig } from './aiProviders';
+import { MigrationProgressListener } from './migrations';
+import { AutoLockSettings, DEFAULT_AUTO_LOCK_SETTINGS, autoLockManager, isAutoLockSettings } from './autoLock';
+import { BackupData, EncryptedBackup, createEncryptedBackup, normalizeBackupData, openEncryptedBackup } from './backup';
+import { extractSearchWords, getEntrySearchWords, matchesSearchWords } from './searchIndex';
 
 export interface StorageSettings {
   encryptionEnabled: boolean;
+  encryptMetadata: boolean;
   autoSave: boolean;
   backupEnabled: boolean;
   theme: 'light' | 'dark' | 'auto';
   notifications: boolean;
+  aiProvider: AIProviderConfig;
+  autoLock: AutoLockSettings;
 }
 
 export interface StorageStats {
@@ -18,30 +64,373 @@ export interface StorageStats {
   lastBackup?: Date;
 }
 
+// Stores rewritten when the journal's key changes
+const ENCRYPTION_STORES = [STORES.ENTRIES, STORES.SESSIONS, STORES.MESSAGES, STORES.SETTINGS, STORES.ANALYSIS_CACHE];
+
+// Older results of the same analysis type beyond this are pruned when a new one is cached
+const MAX_CACHED_ANALYSES_PER_TYPE = 5;
+
+// Written by the analysis pass; updating only these doesn't count as an edit
+const ANALYSIS_FIELDS: (keyof JournalEntry)[] = ['sentimentScore', 'themes', 'analysisTimestamp', 'analysisVersion', 'themesVersion'];
+
+// Settings keys for the wrapped data key and the older password canary it replaces
+const KEY_ENVELOPE_KEY = 'keyEnvelope';
+const RECOVERY_ENVELOPE_KEY = 'recoveryEnvelope';
+const PASSWORD_VERIFIER_KEY = 'passwordVerifier';
+// PBKDF2 iterations calibrated for this device, and the salt of journals from before key envelopes
+const KDF_ITERATIONS_KEY = 'kdfIterations';
+const LEGACY_KDF_KEY = 'legacyKdf';
+// Settings a backup may restore, besides aiProvider and autoLock which are validated
+const IMPORTABLE_SETTINGS = ['autoSave', 'backupEnabled', 'theme', 'notifications'];
+// HMAC key for blind tag tokens, encrypted under the data key
+const INDEX_KEY_KEY = 'indexKey';
+const DURESS_KEY = 'duress';
+
+// Reports re-encryption progress during data key rotation
+export type KeyRotationProgressListener = (completed: number, total: number) => void;
+
+// What entering the duress password does: erase everything, or erase and open an empty journal
+export type DuressAction = 'wipe' | 'decoy';
+
+// The duress password wraps a throwaway key, so it can be checked without being stored
+interface DuressConfig {
+  envelope: KeyEnvelope;
+  action: DuressAction;
+}
+
 export class StorageService {
   private initialized = false;
+  private indexKeyLoading: Promise<CryptoKey> | null = null;
+
+  // Defaults to the IndexedDB singleton; pass an InMemoryBackend to run outside the browser
+  constructor(private readonly backend: StorageBackend = dbManager) {}
 
   // Initialize the storage service
   async initialize(password?: string): Promise<void> {
     try {
       // Initialize database
-      await dbManager.init();
+      await this.backend.init();
+      await this.adoptLegacySalt();
       
       // Initialize encryption if password provided
       if (password) {
-        await encryptionManager.initializeWithPassword(password);
-        await this.saveSetting('encryptionEnabled', true);
-      } else {
+        await this.unlockWithPassword(password);
+        // A duress wipe leaves a fresh journal without encryption
+        await this.saveSetting('encryptionEnabled', encryptionManager.isInitialized());
+      } else if (!(await this.backend.getSetting(KEY_ENVELOPE_KEY))) {
+        // Opening an encrypted journal without its password leaves it locked, not disabled
         await this.saveSetting('encryptionEnabled', false);
       }
       
       this.initialized = true;
+
+      // Analysis results are cached in the database so they survive reloads
+      aiService.setCacheStore({
+        get: key => this.getCachedAnalysis(key),
+        set: (key, analysisType, result) => this.saveCachedAnalysis(key, analysisType, result),
+      });
+
+      // Apply the saved AI provider so analysis and chat use it from the first request
+      const aiProvider = await this.getSetting('aiProvider');
+      if (isAIProviderConfig(aiProvider)) {
+        aiService.configureProvider(aiProvider);
+      }
+
+      const autoLock = await this.getSetting('autoLock');
+      if (isAutoLockSettings(autoLock)) {
+        autoLockManager.configure(autoLock);
+      }
     } catch (error) {
+      if (error instanceof WrongPasswordError) {
+        throw error;
+      }
       console.error('Failed to initialize storage service:', error);
       throw new Error('Storage initialization failed');
     }
   }
 
+  // Unwrap the data key, upgrading journals that still encrypt directly with the password key
+  private async unlockWithPassword(password: string): Promise<void> {
+    const envelope = await this.backend.getSetting(KEY_ENVELOPE_KEY) as StoredKeyEnvelope | undefined;
+    if (envelope) {
+      try {
+        await this.unlockWithEnvelope(envelope, password);
+      } catch (error) {
+        // The duress password is only tried once the real one has failed
+        const duressAction = error instanceof WrongPasswordError ? await this.getDuressActionFor(password) : null;
+        if (!duressAction) throw error;
+        await this.runDuressAction(duressAction, password);
+      }
+      return;
+    }
+
+    // Without an envelope only a journal encrypted before envelopes existed takes a password.
+    // Encryption is otherwise turned on by enableEncryption, which also issues a recovery key.
+    const verifier = await this.backend.getSetting(PASSWORD_VERIFIER_KEY) as PasswordVerifier | undefined;
+    const encryptedEntry = (await this.backend.getAllEntries()).find(entry => entry.encrypted && typeof entry.content !== 'string');
+    const isLegacyEncrypted = verifier !== undefined ||
+      encryptedEntry !== undefined ||
+      (await this.backend.getSetting(LEGACY_KDF_KEY)) !== undefined ||
+      (await this.backend.getSetting('encryptionEnabled')) === true;
+    if (!isLegacyEncrypted) {
+      throw new Error('This journal is not encrypted; enable encryption to set a password');
+    }
+
+    const legacyKdf = await this.getLegacyKdf();
+    await encryptionManager.initializeWithPassword(password, legacyKdf, verifier);
+    if (!verifier) {
+      // Journals encrypted before verifiers existed: test the key on real ciphertext
+      if (encryptedEntry) {
+        try {
+          await encryptionManager.decryptEntry(encryptedEntry);
+        } catch {
+          encryptionManager.clear();
+          throw new WrongPasswordError();
+        }
+      }
+    }
+
+    // The password-derived key becomes the data key, so nothing needs re-encrypting
+    const upgradedEnvelope = await encryptionManager.wrapLegacyKey(password, legacyKdf, await this.getKdfIterations());
+    await this.backend.runTransaction([STORES.SETTINGS], 'readwrite', async (tx) => {
+      await Promise.all([
+        tx.put(STORES.SETTINGS, { key: KEY_ENVELOPE_KEY, value: upgradedEnvelope }),
+        tx.delete(STORES.SETTINGS, PASSWORD_VERIFIER_KEY),
+        tx.delete(STORES.SETTINGS, LEGACY_KDF_KEY),
+      ]);
+    });
+
+    // The envelope now carries its own parameters; the old salt is no longer needed
+    if (typeof localStorage !== 'undefined') {
+      localStorage.removeItem(LEGACY_SALT_STORAGE_KEY);
+    }
+    console.log('🔑 Upgraded journal to a wrapped data key');
+  }
+
+  private async unlockWithEnvelope(envelope: StoredKeyEnvelope, password: string): Promise<void> {
+    const iterations = await this.getKdfIterations();
+    if (!needsKdfUpgrade(envelope, iterations)) {
+      await encryptionManager.initializeWithEnvelope(envelope, password);
+      return;
+    }
+
+    // Rewrap under the current parameters while the password is at hand
+    const dataKey = await unwrapDataKey(envelope, password, true);
+    const upgradedEnvelope = await wrapDataKey(dataKey, password, iterations);
+    await this.backend.putMany(STORES.SETTINGS, [{ key: KEY_ENVELOPE_KEY, value: upgradedEnvelope }]);
+    await encryptionManager.initializeWithEnvelope(upgradedEnvelope, password);
+    console.log(`🔑 Upgraded key derivation to ${iterations} iterations`);
+  }
+
+  // Older journals kept their salt in localStorage; copy it next to the data so clearing
+  // one without the other can't orphan every entry
+  private async adoptLegacySalt(): Promise<void> {
+    if (typeof localStorage === 'undefined') return;
+
+    const storedSalt = localStorage.getItem(LEGACY_SALT_STORAGE_KEY);
+    if (!storedSalt || (await this.backend.getSetting(LEGACY_KDF_KEY)) !== undefined) return;
+    if ((await this.backend.getSetting(KEY_ENVELOPE_KEY)) !== undefined) return;
+
+    const legacyKdf: KdfParams = {
+      algorithm: 'PBKDF2-SHA-256',
+      iterations: LEGACY_KDF_ITERATIONS,
+      salt: new Uint8Array(JSON.parse(storedSalt)),
+    };
+    await this.backend.putMany(STORES.SETTINGS, [{ key: LEGACY_KDF_KEY, value: legacyKdf }]);
+  }
+
+  // Parameters for journals encrypted directly with the password key
+  private async getLegacyKdf(): Promise<KdfParams> {
+    const legacyKdf = await this.backend.getSetting(LEGACY_KDF_KEY) as KdfParams | undefined;
+    if (legacyKdf) return legacyKdf;
+
+    // No earlier salt: the key derived here is wrapped straight into an envelope
+    return {
+      algorithm: 'PBKDF2-SHA-256',
+      iterations: LEGACY_KDF_ITERATIONS,
+      salt: crypto.getRandomValues(new Uint8Array(16)),
+    };
+  }
+
+  // Iteration count calibrated for this device the first time it is needed
+  private async getKdfIterations(): Promise<number> {
+    const storedIterations = await this.backend.getSetting(KDF_ITERATIONS_KEY);
+    if (typeof storedIterations === 'number') return storedIterations;
+
+    const iterations = await calibrateKdfIterations();
+    await this.backend.putMany(STORES.SETTINGS, [{ key: KDF_ITERATIONS_KEY, value: iterations }]);
+    console.log(`🔑 Calibrated key derivation to ${iterations} iterations`);
+    return iterations;
+  }
+
+  // Unlock with the recovery key and immediately replace the forgotten password
+  async initializeWithRecoveryKey(recoveryKey: string, newPassword: string): Promise<void> {
+    await this.backend.init();
+
+    const dataKey = await this.unwrapWithRecoveryKey(recoveryKey, true);
+    // The real password is tried first, so a matching duress password could never fire
+    if (await this.getDuressActionFor(newPassword)) {
+      throw new Error('New password must differ from the duress password');
+    }
+    const envelope = await wrapDataKey(dataKey, newPassword, await this.getKdfIterations());
+    await this.backend.runTransaction([STORES.SETTINGS], 'readwrite', async (tx) => {
+      await Promise.all([
+        tx.put(STORES.SETTINGS, { key: KEY_ENVELOPE_KEY, value: envelope }),
+        tx.put(STORES.SETTINGS, { key: 'encryptionEnabled', value: true }),
+      ]);
+    });
+
+    await encryptionManager.initializeWithEnvelope(envelope, newPassword);
+    this.initialized = true;
+    console.log('🔑 Journal unlocked with recovery key and password reset');
+  }
+
+  // Check a recovery key before asking for a new password
+  async checkRecoveryKey(recoveryKey: string): Promise<boolean> {
+    await this.backend.init();
+
+    try {
+      await this.unwrapWithRecoveryKey(recoveryKey);
+      return true;
+    } catch (error) {
+      if (error instanceof WrongPasswordError) return false;
+      throw error;
+    }
+  }
+
+  private async unwrapWithRecoveryKey(recoveryKey: string, extractable = false): Promise<CryptoKey> {
+    const code = normalizeRecoveryKey(recoveryKey);
+    const envelope = await this.backend.getSetting(RECOVERY_ENVELOPE_KEY) as StoredKeyEnvelope | undefined;
+    if (!code || !envelope) {
+      throw new WrongPasswordError('Incorrect recovery key');
+    }
+
+    try {
+      return await unwrapDataKey(envelope, code, extractable);
+    } catch (error) {
+      if (error instanceof WrongPasswordError) {
+        throw new WrongPasswordError('Incorrect recovery key');
+      }
+      throw error;
+    }
+  }
+
+  // Encrypted journal whose key is not in memory: content can't be read until it is unlocked
+  async isLocked(): Promise<boolean> {
+    this.ensureInitialized();
+
+    if (encryptionManager.isInitialized()) return false;
+    if ((await this.backend.getSetting(KEY_ENVELOPE_KEY)) !== undefined) return true;
+
+    // Journals encrypted before key envelopes only reveal themselves through their entries
+    if ((await this.backend.getSetting(PASSWORD_VERIFIER_KEY)) !== undefined) return true;
+    return (await this.backend.getAllEntries()).some(entry => entry.encrypted && typeof entry.content !== 'string');
+  }
+
+  private async getKeyEnvelope(): Promise<StoredKeyEnvelope> {
+    const envelope = await this.backend.getSetting(KEY_ENVELOPE_KEY) as StoredKeyEnvelope | undefined;
+    if (!envelope) {
+      throw new Error('Encryption not enabled');
+    }
+    return envelope;
+  }
+
+  // Whether tags, mood, timestamps etc. are sealed into the ciphertext along with the content
+  private async isMetadataSealed(): Promise<boolean> {
+    return encryptionManager.isInitialized() && (await this.backend.getSetting('encryptMetadata')) === true;
+  }
+
+  // Load the blind index key, creating it the first time this journal needs one. Concurrent
+  // callers share one load so they never create two different keys.
+  private getIndexKey(): Promise<CryptoKey> {
+    const cachedKey = encryptionManager.getIndexKey();
+    if (cachedKey) return Promise.resolve(cachedKey);
+
+    this.indexKeyLoading ??= this.loadIndexKey().finally(() => {
+      this.indexKeyLoading = null;
+    });
+    return this.indexKeyLoading;
+  }
+
+  private async loadIndexKey(): Promise<CryptoKey> {
+    const dataKey = encryptionManager.getKey();
+    if (!dataKey) {
+      throw new Error('Encryption not initialized');
+    }
+
+    const sealedKey = await this.backend.getSetting(INDEX_KEY_KEY) as SealedIndexKey | undefined;
+    let indexKey: CryptoKey;
+    if (sealedKey) {
+      indexKey = await openIndexKey(sealedKey, dataKey);
+    } else {
+      indexKey = await generateIndexKey();
+      await this.backend.putMany(STORES.SETTINGS, [{ key: INDEX_KEY_KEY, value: await sealIndexKey(indexKey, dataKey) }]);
+    }
+
+    encryptionManager.setIndexKey(indexKey);
+    return indexKey;
+  }
+
+  private async getTagTokens(tags: string[] = []): Promise<string[]> {
+    const indexKey = await this.getIndexKey();
+    const tokens = await Promise.all(tags.map(tag => blindToken(indexKey, `tag:${tag.trim().toLowerCase()}`)));
+    return Array.from(new Set(tokens));
+  }
+
+  // Words are normalized by the caller, see searchIndex.ts
+  private async getWordTokens(words: string[]): Promise<string[]> {
+    const indexKey = await this.getIndexKey();
+    return Promise.all(words.map(word => blindToken(indexKey, `word:${word}`)));
+  }
+
+  private async getEntryWordTokens(entry: JournalEntry): Promise<string[]> {
+    return this.getWordTokens(getEntrySearchWords(typeof entry.content === 'string' ? entry.content : '', entry.tags));
+  }
+
+  // Sealed entries are ordered by a sequence number so the index doesn't reveal when they were written
+  private async getNextSealedSortKey(): Promise<number> {
+    const { entries: [newest] } = await this.backend.getEntriesPage(1);
+    return (newest?.sortKey ?? 0) + 1;
+  }
+
+  // Turn a readable entry into the record that is written: plaintext, content-encrypted or fully sealed
+  private async encodeEntry(entry: JournalEntry, sealMetadata: boolean, sortKey: number): Promise<JournalEntry> {
+    if (!encryptionManager.isInitialized()) {
+      return { ...entry, encrypted: false, iv: undefined, sortKey };
+    }
+
+    // Encrypted entries can only be searched through their keyword tokens
+    const wordTokens = await this.getEntryWordTokens(entry);
+    if (sealMetadata) {
+      return { ...(await encryptionManager.sealEntry(entry, sortKey, await this.getTagTokens(entry.tags))), wordTokens };
+    }
+
+    return { ...(await encryptionManager.encryptContent(entry)), sortKey, wordTokens };
+  }
+
+  // Sessions are sealed whenever a key is loaded, so the summary never sits in plaintext
+  private async encodeSession(session: ChatSession): Promise<ChatSession> {
+    if (!encryptionManager.isInitialized()) return session;
+    return encryptionManager.sealSession(session, await this.isMetadataSealed());
+  }
+
+  // Without a key sealed sessions are returned as-is; the UI should prompt for the password
+  private async decodeSession(session: ChatSession): Promise<ChatSession> {
+    if (!session.encrypted || !encryptionManager.isInitialized()) return session;
+    return encryptionManager.openSession(session);
+  }
+
+  // Readable copy of a stored session to merge into; throws if it is sealed and the journal is locked
+  private async getSessionForUpdate(id: string): Promise<ChatSession | undefined> {
+    const stored = await this.backend.getSession(id);
+    return stored?.encrypted ? await encryptionManager.openSession(stored) : stored;
+  }
+
+  // Subscribe to database migration progress reported while initialize() opens the database
+  onMigrationProgress(listener: MigrationProgressListener): () => void {
+    return this.backend.onMigrationProgress(listener);
+  }
+
   // Check if service is initialized
   private ensureInitialized(): void {
     if (!this.initialized) {
@@ -49,6 +438,22 @@ export class StorageService {
     }
   }
 
+  // Journal content is only written while its key is loaded; an encrypted journal that is locked
+  // refuses writes rather than storing them in plaintext
+  private async ensureWritable(): Promise<void> {
+    this.ensureInitialized();
+    if (encryptionManager.isInitialized()) return;
+
+    const [envelope, verifier, encryptionEnabled] = await Promise.all([
+      this.backend.getSetting(KEY_ENVELOPE_KEY),
+      this.backend.getSetting(PASSWORD_VERIFIER_KEY),
+      this.backend.getSetting('encryptionEnabled'),
+    ]);
+    if (envelope !== undefined || verifier !== undefined || encryptionEnabled === true) {
+      throw new JournalLockedError();
+    }
+  }
+
   // Journal Entry Operations
   async saveJournalEntry(
     content: string,
@@ -56,48 +461,34 @@ export class StorageService {
     tags?: string[],
     mood?: string
   ): Promise<JournalEntry> {
-    this.ensureInitialized();
+    await this.ensureWritable();
 
-    const entryData = {
+    const now = new Date();
+    const entry: JournalEntry = {
+      id: crypto.randomUUID(),
       content,
       emojis,
-      timestamp: new Date(),
+      timestamp: now,
+      encrypted: false,
       tags,
       mood,
+      createdAt: now,
+      updatedAt: now,
+      sortKey: now.getTime(),
     };
 
-    let entry: JournalEntry;
-
-    if (encryptionManager.isInitialized()) {
-      // Encrypt the entry
-      entry = await encryptionManager.encryptEntry(entryData);
-    } else {
-      // Store unencrypted
-      entry = {
-        id: crypto.randomUUID(),
-        content,
-        emojis,
-        timestamp: new Date(),
-        encrypted: false,
-        tags,
-        mood,
-        createdAt: new Date(),
-        updatedAt: new Date(),
-      };
-    }
-
-    await dbManager.saveEntry(entry);
+    // Encrypts the entry when a key is loaded
+    const sealMetadata = await this.isMetadataSealed();
+    const sortKey = sealMetadata ? await this.getNextSealedSortKey() : now.getTime();
+    await this.backend.saveEntry(await this.encodeEntry(entry, sealMetadata, sortKey));
     
-    // Clear AI analysis cache when new entries are added
-    aiService.clearCache();
-    
-    return entry;
+    return { ...entry, sortKey };
   }
 
   async getJournalEntry(id: string): Promise<JournalEntry | null> {
     this.ensureInitialized();
 
-    const entry = await dbManager.getEntry(id);
+    const entry = await this.backend.getEntry(id);
     if (!entry) return null;
 
     if (entry.encrypted && encryptionManager.isInitialized()) {
@@ -110,7 +501,7 @@ export class StorageService {
   async getAllJournalEntries(): Promise<JournalEntry[]> {
     this.ensureInitialized();
 
-    const entries = await dbManager.getAllEntries();
+    const entries = await this.backend.getAllEntries();
     
     // Check if encryption is enabled but not initialized
     const encryptionEnabled = await this.getSetting('encryptionEnabled', false) as boolean;
@@ -138,41 +529,125 @@ export class StorageService {
     return entries.sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
   }
 
-  async updateJournalEntry(id: string, updates: Partial<JournalEntry>): Promise<JournalEntry | null> {
+  // Fetch one page of entries (newest first) and decrypt only that page
+  async getJournalEntriesPage(limit: number, cursor?: EntryPageCursor | null): Promise<EntryPage> {
+    this.ensureInitialized();
+
+    const page = await this.backend.getEntriesPage(limit, cursor);
+
+    if (encryptionManager.isInitialized()) {
+      const entries = await Promise.all(
+        page.entries.map(async (entry) => {
+          if (entry.encrypted) {
+            return await encryptionManager.decryptEntry(entry);
+          }
+          return entry;
+        })
+      );
+      return { ...page, entries };
+    }
+
+    // Without a key encrypted entries are returned as-is; the UI should prompt for the password
+    return page;
+  }
+
+  async getJournalEntryCount(): Promise<number> {
     this.ensureInitialized();
+    return await this.backend.countEntries();
+  }
+
+  async updateJournalEntry(id: string, updates: Partial<JournalEntry>): Promise<JournalEntry | null> {
+    await this.ensureWritable();
+
+    const storedEntry = await this.backend.getEntry(id);
+    if (!storedEntry) return null;
+
+    if (!encryptionManager.isInitialized()) {
+      // Unencrypted journal: the entry is stored as it is
+      const updatedEntry = this.applyEntryUpdates(storedEntry, updates);
+      updatedEntry.sortKey = updatedEntry.timestamp.getTime();
+      await this.backend.updateEntry(updatedEntry);
+      return updatedEntry;
+    }
 
-    const existingEntry = await dbManager.getEntry(id);
-    if (!existingEntry) return null;
+    const existingEntry = await encryptionManager.decryptEntry(storedEntry);
+    const updatedEntry = this.applyEntryUpdates(existingEntry, updates);
 
-    const updatedEntry = {
-      ...existingEntry,
+    // Sealed entries keep their place in the sequence; plaintext sort keys follow the timestamp
+    const sealMetadata = await this.isMetadataSealed();
+    updatedEntry.sortKey = sealMetadata
+      ? storedEntry.sortKey ?? await this.getNextSealedSortKey()
+      : updatedEntry.timestamp.getTime();
+
+    await this.backend.updateEntry(await this.encodeEntry(updatedEntry, sealMetadata, updatedEntry.sortKey));
+    return updatedEntry;
+  }
+
+  private applyEntryUpdates(entry: JournalEntry, updates: Partial<JournalEntry>): JournalEntry {
+    const analysisOnly = Object.keys(updates).every(key => ANALYSIS_FIELDS.includes(key as keyof JournalEntry));
+    const updatedEntry: JournalEntry = {
+      ...entry,
       ...updates,
-      updatedAt: new Date(),
+      updatedAt: analysisOnly ? entry.updatedAt : new Date(),
     };
 
-    if (encryptionManager.isInitialized() && updates.content) {
-      // Re-encrypt if content was updated
-      const encryptedEntry = await encryptionManager.encryptEntry({
-        content: updates.content,
-        emojis: updatedEntry.emojis,
-        timestamp: updatedEntry.timestamp,
-        tags: updatedEntry.tags,
-        mood: updatedEntry.mood,
-      });
-      updatedEntry.content = encryptedEntry.content;
-      updatedEntry.iv = encryptedEntry.iv;
-      updatedEntry.encrypted = true;
+    // Edited text invalidates the stored analysis; the next analysis pass scores it again
+    if (updates.content !== undefined && updates.content !== entry.content && updates.analysisVersion === undefined) {
+      updatedEntry.sentimentScore = undefined;
+      updatedEntry.themes = undefined;
+      updatedEntry.analysisTimestamp = undefined;
+      updatedEntry.analysisVersion = undefined;
+      updatedEntry.themesVersion = undefined;
     }
-
-    await dbManager.updateEntry(updatedEntry);
     return updatedEntry;
   }
 
-  async deleteJournalEntry(id: string): Promise<boolean> {
+  // Analyze entries that are new, edited or scored by an older sentiment version, refresh themes
+  // left by an older theme version, and store the results on each entry; returns every entry with
+  // its current analysis. Entries only go to the AI provider with useProvider, once the user has
+  // seen what is sent.
+  async refreshEntryAnalysis(useProvider = false): Promise<JournalEntry[]> {
     this.ensureInitialized();
 
+    let entries = await this.getAllJournalEntries();
+    const pendingEntries = entries.filter(needsEntryAnalysis);
+    if (pendingEntries.length > 0) {
+      entries = await this.storeEntryAnalysis(entries, await aiService.scoreEntries(pendingEntries, entries, useProvider));
+    }
+    return this.updateOutdatedThemes(entries);
+  }
+
+  // Extract themes for entries without current ones, on this device; sentiment is left as it is
+  async refreshEntryThemes(): Promise<JournalEntry[]> {
+    this.ensureInitialized();
+    return this.updateOutdatedThemes(await this.getAllJournalEntries());
+  }
+
+  private async updateOutdatedThemes(entries: JournalEntry[]): Promise<JournalEntry[]> {
+    const outdatedEntries = entries.filter(needsThemeAnalysis);
+    if (outdatedEntries.length === 0) return entries;
+    return this.storeEntryAnalysis(entries, aiService.extractThemes(outdatedEntries, entries));
+  }
+
+  private async storeEntryAnalysis(
+    entries: JournalEntry[],
+    analyses: Array<EntryThemes | EntryAnalysis>
+  ): Promise<JournalEntry[]> {
+    const analyzedEntries = new Map<string, JournalEntry>();
+    for (const { entryId, ...analysis } of analyses) {
+      const updatedEntry = await this.updateJournalEntry(entryId, analysis);
+      if (updatedEntry) analyzedEntries.set(entryId, updatedEntry);
+    }
+
+    console.log(`🧠 Stored analysis for ${analyzedEntries.size} journal entries`);
+    return entries.map(entry => analyzedEntries.get(entry.id) ?? entry);
+  }
+
+  async deleteJournalEntry(id: string): Promise<boolean> {
+    await this.ensureWritable();
+
     try {
-      await dbManager.deleteEntry(id);
+      await this.backend.deleteEntry(id);
       return true;
     } catch (error) {
       console.error('Failed to delete journal entry:', error);
@@ -183,7 +658,15 @@ export class StorageService {
   async getEntriesByDateRange(startDate: Date, endDate: Date): Promise<JournalEntry[]> {
     this.ensureInitialized();
 
-    const entries = await dbManager.getEntriesByDateRange(startDate, endDate);
+    // Sealed timestamps aren't indexed, so filter after decrypting
+    if (await this.isMetadataSealed()) {
+      const entries = await this.getAllJournalEntries();
+      return entries
+        .filter(entry => entry.timestamp >= startDate && entry.timestamp <= endDate)
+        .reverse();
+    }
+
+    const entries = await this.backend.getEntriesByDateRange(startDate, endDate);
     
     if (encryptionManager.isInitialized()) {
       return await Promise.all(
@@ -199,31 +682,145 @@ export class StorageService {
     return entries;
   }
 
-  // Chat Session Operations
-  async saveChatSession(entries: JournalEntry[], sessionId?: string): Promise<ChatSession> {
+  // Sealed entries are found through their blind tag tokens without decrypting the rest
+  async getEntriesByTag(tag: string): Promise<JournalEntry[]> {
     this.ensureInitialized();
 
+    const normalizedTag = tag.trim().toLowerCase();
+    if (await this.isMetadataSealed()) {
+      const [token] = await this.getTagTokens([tag]);
+      const entries = await this.backend.runTransaction([STORES.ENTRIES], 'readonly', tx =>
+        tx.getAllByIndex<JournalEntry>(STORES.ENTRIES, 'tagTokens', token)
+      );
+      const decryptedEntries = await Promise.all(entries.map(entry => encryptionManager.decryptEntry(entry)));
+      return decryptedEntries.sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+    }
+
+    const entries = await this.getAllJournalEntries();
+    return entries.filter(entry => entry.tags?.some(entryTag => entryTag.trim().toLowerCase() === normalizedTag));
+  }
+
+  // Entries containing every word of the query, newest first. With encryption the matching IDs
+  // come from the blind keyword index and only those entries are decrypted.
+  async searchJournalEntries(query: string): Promise<JournalEntry[]> {
+    this.ensureInitialized();
+
+    const words = extractSearchWords(query);
+    if (words.length === 0) return [];
+
+    if (!encryptionManager.isInitialized()) {
+      if (await this.isLocked()) {
+        throw new Error('Unlock the journal before searching');
+      }
+      const entries = await this.getAllJournalEntries();
+      return entries.filter(entry => matchesSearchWords(entry.content as string, entry.tags, words));
+    }
+
+    await this.indexUnindexedEntries();
+    const tokens = await this.getWordTokens(words);
+    const matchingIds = await this.backend.runTransaction([STORES.ENTRIES], 'readonly', async (tx) => {
+      const matches = await Promise.all(tokens.map(token => tx.getKeysByIndex(STORES.ENTRIES, 'wordTokens', token)));
+      const matchSets = matches.map(ids => new Set(ids));
+      return matches[0].filter(id => matchSets.every(ids => ids.has(id)));
+    });
+
+    const entries = await Promise.all(matchingIds.map(id => this.backend.getEntry(id)));
+    const decryptedEntries = await Promise.all(
+      entries
+        .filter((entry): entry is JournalEntry => entry !== undefined)
+        .map(entry => encryptionManager.decryptEntry(entry))
+    );
+    return decryptedEntries.sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+  }
+
+  // Entries encrypted before the keyword index existed, or retagged while locked, are indexed once
+  private async indexUnindexedEntries(): Promise<void> {
+    const unindexed = (await this.backend.getAllEntries()).filter(entry => entry.encrypted && !entry.wordTokens);
+    if (unindexed.length === 0) return;
+
+    const indexedEntries = await Promise.all(unindexed.map(async (entry) => ({
+      ...entry,
+      wordTokens: await this.getEntryWordTokens(await encryptionManager.decryptEntry(entry)),
+    })));
+
+    await this.backend.runTransaction([STORES.ENTRIES], 'readwrite', async (tx) => {
+      await Promise.all(indexedEntries.map(async (entry) => {
+        // Entries rewritten in the meantime got fresh tokens with their new ciphertext
+        const current = await tx.get<JournalEntry>(STORES.ENTRIES, entry.id);
+        if (current && current.iv?.toString() === entry.iv?.toString()) {
+          await tx.put(STORES.ENTRIES, { ...current, wordTokens: entry.wordTokens });
+        }
+      }));
+    });
+    console.log(`🔎 Indexed ${indexedEntries.length} journal entries for search`);
+  }
+
+  // Chat Session Operations
+  // Creates the session or, when it already exists (e.g. a resumed conversation), appends the new entry IDs
+  async saveChatSession(entries: JournalEntry[], sessionId?: string, startTime?: Date): Promise<ChatSession> {
+    await this.ensureWritable();
+
+    const id = sessionId || crypto.randomUUID();
+
+    // Sealed sessions are decrypted and re-sealed around the write, so this can't be one transaction
+    const existing = await this.getSessionForUpdate(id);
+
     const session: ChatSession = {
-      id: sessionId || crypto.randomUUID(),
-      entryIds: entries.map(entry => entry.id), // Store only entry IDs
-      startTime: new Date(),
+      ...existing,
+      id,
+      entryIds: Array.from(new Set([
+        ...(existing?.entryIds ?? []),
+        ...entries.map(entry => entry.id), // Store only entry IDs
+      ])),
+      startTime: existing?.startTime ?? startTime ?? new Date(),
       endTime: new Date(),
     };
 
-    await dbManager.saveSession(session);
+    await this.backend.updateSession(await this.encodeSession(session));
+    return session;
+  }
+
+  // Merge a session snapshot received via the save-session beacon into local storage
+  async applySessionSnapshot(snapshot: { sessionId: string; entryIds: string[]; startTime: Date; endTime: Date }): Promise<ChatSession> {
+    await this.ensureWritable();
+
+    const existing = await this.getSessionForUpdate(snapshot.sessionId);
+
+    // Ignore references to entries that never made it to disk
+    const knownEntryIds = await this.backend.runTransaction([STORES.ENTRIES], 'readonly', tx =>
+      Promise.all(
+        snapshot.entryIds.map(async (entryId) =>
+          (await tx.get<JournalEntry>(STORES.ENTRIES, entryId)) ? entryId : null
+        )
+      )
+    );
+
+    const session: ChatSession = {
+      ...existing,
+      id: snapshot.sessionId,
+      entryIds: Array.from(new Set([
+        ...(existing?.entryIds ?? []),
+        ...knownEntryIds.filter((entryId): entryId is string => entryId !== null),
+      ])),
+      startTime: existing && existing.startTime < snapshot.startTime ? existing.startTime : snapshot.startTime,
+      endTime: existing?.endTime && existing.endTime > snapshot.endTime ? existing.endTime : snapshot.endTime,
+    };
+
+    await this.backend.updateSession(await this.encodeSession(session));
     return session;
   }
 
   async getChatSession(id: string): Promise<ChatSession | null> {
     this.ensureInitialized();
-    const session = await dbManager.getSession(id);
-    return session || null;
+    const session = await this.backend.getSession(id);
+    return session ? await this.decodeSession(session) : null;
   }
 
   async getChatSessionWithEntries(id: string): Promise<{ session: ChatSession; entries: JournalEntry[] } | null> {
     this.ensureInitialized();
-    const session = await dbManager.getSession(id);
-    if (!session) return null;
+    const storedSession = await this.backend.getSession(id);
+    if (!storedSession) return null;
+    const session = await this.decodeSession(storedSession);
 
     // Resolve entry IDs to actual entries
     const entries = await Promise.all(
@@ -245,17 +842,18 @@ export class StorageService {
 
   async getAllChatSessions(): Promise<ChatSession[]> {
     this.ensureInitialized();
-    return await dbManager.getAllSessions();
+    const sessions = await this.backend.getAllSessions();
+    return await Promise.all(sessions.map(session => this.decodeSession(session)));
   }
 
   async updateChatSession(id: string, updates: Partial<ChatSession>): Promise<ChatSession | null> {
-    this.ensureInitialized();
+    await this.ensureWritable();
 
-    const existingSession = await dbManager.getSession(id);
+    const existingSession = await this.getSessionForUpdate(id);
     if (!existingSession) return null;
 
     const updatedSession = { ...existingSession, ...updates };
-    await dbManager.updateSession(updatedSession);
+    await this.backend.updateSession(await this.encodeSession(updatedSession));
     return updatedSession;
   }
 
@@ -263,7 +861,14 @@ export class StorageService {
     this.ensureInitialized();
 
     try {
-      await dbManager.deleteSession(id);
+      // Remove the session and its transcript together
+      await this.backend.runTransaction([STORES.SESSIONS, STORES.MESSAGES], 'readwrite', async (tx) => {
+        const messages = await tx.getAllByIndex<ChatMessage>(STORES.MESSAGES, 'sessionId', id);
+        await Promise.all([
+          ...messages.map(message => tx.delete(STORES.MESSAGES, message.id)),
+          tx.delete(STORES.SESSIONS, id),
+        ]);
+      });
       return true;
     } catch (error) {
       console.error('Failed to delete chat session:', error);
@@ -271,6 +876,104 @@ export class StorageService {
     }
   }
 
+  // Chat Message Operations
+  async saveChatMessage(message: Omit<ChatMessage, 'encrypted' | 'iv' | 'content'> & { content: string }): Promise<ChatMessage> {
+    await this.ensureWritable();
+
+    const plainMessage: ChatMessage = { ...message, encrypted: false };
+    const storedMessage = encryptionManager.isInitialized()
+      ? await encryptionManager.encryptMessage(plainMessage)
+      : plainMessage;
+
+    await this.backend.saveMessage(storedMessage);
+    return plainMessage;
+  }
+
+  // Transcript for a session in the order it happened
+  async getChatMessages(sessionId: string): Promise<ChatMessage[]> {
+    this.ensureInitialized();
+
+    const messages = await this.backend.getMessagesBySession(sessionId);
+
+    if (encryptionManager.isInitialized()) {
+      return await Promise.all(
+        messages.map(async (message) => {
+          if (message.encrypted) {
+            return await encryptionManager.decryptMessage(message);
+          }
+          return message;
+        })
+      );
+    }
+
+    return messages;
+  }
+
+  // Analysis cache: keys are blinded and results encrypted whenever a key is loaded, and an
+  // encrypted journal that is locked neither reads nor writes the cache
+  private async getAnalysisCacheKey(key: string): Promise<string | null> {
+    if (encryptionManager.isInitialized()) {
+      return blindToken(await this.getIndexKey(), `analysis:${key}`);
+    }
+    return (await this.getSetting('encryptionEnabled', false)) ? null : key;
+  }
+
+  private async getCachedAnalysis(key: string): Promise<AIAnalysisResult | null> {
+    this.ensureInitialized();
+
+    const storedKey = await this.getAnalysisCacheKey(key);
+    if (!storedKey) return null;
+
+    const record = await this.backend.getCachedAnalysis(storedKey);
+    if (!record) return null;
+
+    let json: string;
+    if (record.encrypted) {
+      if (!(record.result instanceof ArrayBuffer) || !record.iv) return null;
+      try {
+        json = await encryptionManager.decrypt(record.result, record.iv);
+      } catch {
+        // Written under a key that has since been rotated or disabled
+        return null;
+      }
+    } else {
+      if (typeof record.result !== 'string') return null;
+      json = record.result;
+    }
+
+    const result = JSON.parse(json) as AIAnalysisResult;
+    return { ...result, timestamp: new Date(result.timestamp) };
+  }
+
+  private async saveCachedAnalysis(key: string, analysisType: AnalysisType, result: AIAnalysisResult): Promise<void> {
+    this.ensureInitialized();
+
+    const storedKey = await this.getAnalysisCacheKey(key);
+    if (!storedKey) return;
+
+    const json = JSON.stringify(result);
+    let record: CachedAnalysis;
+    if (encryptionManager.isInitialized()) {
+      const { encryptedData, iv } = await encryptionManager.encrypt(json);
+      record = { key: storedKey, analysisType, result: encryptedData, encrypted: true, iv, createdAt: new Date() };
+    } else {
+      record = { key: storedKey, analysisType, result: json, encrypted: false, createdAt: new Date() };
+    }
+
+    // Results for inputs that have since changed are never read again; keep only the newest few
+    await this.backend.runTransaction([STORES.ANALYSIS_CACHE], 'readwrite', async (tx) => {
+      const cached = await tx.getAllByIndex<CachedAnalysis>(STORES.ANALYSIS_CACHE, 'analysisType', analysisType);
+      const stale = cached
+        .filter(other => other.key !== storedKey)
+        .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
+        .slice(MAX_CACHED_ANALYSES_PER_TYPE - 1);
+      await Promise.all([
+        tx.put(STORES.ANALYSIS_CACHE, record),
+        ...stale.map(other => tx.delete(STORES.ANALYSIS_CACHE, other.key)),
+      ]);
+    });
+  }
+
   // Settings Operations
 async saveSetting(key: string, value: unknown): Promise<void> {
   // Allow saving encryptionEnabled during initialization
@@ -279,11 +982,11 @@ async saveSetting(key: string, value: unknown): Promise<void> {
   }
 
   try {
-    const existing = await dbManager.getSetting(key);
+    const existing = await this.backend.getSetting(key);
     if (existing !== undefined) {
-      await dbManager.updateSetting(key, value);
+      await this.backend.updateSetting(key, value);
     } else {
-      await dbManager.saveSetting(key, value);
+      await this.backend.saveSetting(key, value);
     }
   } catch (error) {
     console.error('Failed to save setting:', error);
@@ -295,7 +998,7 @@ async saveSetting(key: string, value: unknown): Promise<void> {
     this.ensureInitialized();
 
     try {
-      const value = await dbManager.getSetting(key);
+      const value = await this.backend.getSetting(key);
       return value !== undefined ? value : defaultValue;
     } catch (error) {
       console.error('Failed to get setting:', error);
@@ -308,10 +1011,13 @@ async saveSetting(key: string, value: unknown): Promise<void> {
 
     const defaultSettings: StorageSettings = {
       encryptionEnabled: false,
+      encryptMetadata: false,
       autoSave: true,
       backupEnabled: false,
       theme: 'auto',
       notifications: true,
+      aiProvider: DEFAULT_AI_PROVIDER_CONFIG,
+      autoLock: DEFAULT_AUTO_LOCK_SETTINGS,
     };
 
     const settings: StorageSettings = { ...defaultSettings };
@@ -330,11 +1036,12 @@ async saveSetting(key: string, value: unknown): Promise<void> {
   async getStorageStats(): Promise<StorageStats> {
     this.ensureInitialized();
 
-    const entries = await dbManager.getAllEntries();
-    const sessions = await dbManager.getAllSessions();
+    const entries = await this.backend.getAllEntries();
+    const sessions = await this.backend.getAllSessions();
+    const messages = await this.backend.getAllMessages();
     
     // Estimate storage usage (rough calculation)
-    const storageUsed = JSON.stringify({ entries, sessions }).length;
+    const storageUsed = JSON.stringify({ entries, sessions, messages }).length;
 
     return {
       totalEntries: entries.length,
@@ -345,84 +1052,273 @@ async saveSetting(key: string, value: unknown): Promise<void> {
   }
 
   // Backup and Restore
-  async exportData(): Promise<{ entries: JournalEntry[]; sessions: ChatSession[]; settings: Record<string, unknown> }> {
+  // Readable copy of the whole journal; encrypted journals must be unlocked first
+  async exportData(): Promise<BackupData> {
     this.ensureInitialized();
 
+    if (await this.isLocked()) {
+      throw new Error('Unlock the journal before exporting');
+    }
+
     const entries = await this.getAllJournalEntries();
     const sessions = await this.getAllChatSessions();
     const settings = await this.getAllSettings();
 
-    return { entries, sessions, settings: settings as unknown as Record<string, unknown> };
+    let messages = await this.backend.getAllMessages();
+    if (encryptionManager.isInitialized()) {
+      messages = await Promise.all(messages.map(message => encryptionManager.decryptMessage(message)));
+    }
+
+    return { entries, sessions, messages, settings: settings as unknown as Record<string, unknown> };
+  }
+
+  // Export sealed with a backup passphrase, independent of the journal password
+  async exportEncryptedBackup(passphrase: string): Promise<EncryptedBackup> {
+    const backup = await createEncryptedBackup(await this.exportData(), passphrase, await this.getKdfIterations());
+    await this.saveSetting('lastBackup', new Date());
+    return backup;
   }
 
-  async importData(data: { entries?: JournalEntry[]; sessions?: ChatSession[]; settings?: Record<string, unknown> }): Promise<void> {
+  // Throws WrongPasswordError or BackupError before anything is written
+  async importEncryptedBackup(backup: EncryptedBackup, passphrase: string): Promise<void> {
     this.ensureInitialized();
+    await this.importData(await openEncryptedBackup(backup, passphrase));
+  }
 
-    if (data.entries) {
-      for (const entry of data.entries) {
-        await dbManager.saveEntry(entry);
-      }
+  // Import readable data, encrypting it the same way as the rest of the journal
+  async importData(data: unknown): Promise<void> {
+    this.ensureInitialized();
+
+    if (await this.isLocked()) {
+      throw new Error('Unlock the journal before importing');
     }
 
-    if (data.sessions) {
-      for (const session of data.sessions) {
-        await dbManager.saveSession(session);
+    const { entries, sessions, messages, settings } = normalizeBackupData(data);
+    const sealMetadata = await this.isMetadataSealed();
+
+    // Sealed sort keys are a sequence, so existing and imported entries are renumbered together
+    const sortKeys = new Map<string, number>();
+    const renumberedEntries: JournalEntry[] = [];
+    if (sealMetadata) {
+      const importedIds = new Set(entries.map(entry => entry.id));
+      const existingEntries = (await this.getAllJournalEntries()).filter(entry => !importedIds.has(entry.id));
+      [...existingEntries, ...entries]
+        .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+        .forEach((entry, index) => sortKeys.set(entry.id, index + 1));
+
+      for (const storedEntry of await this.backend.getAllEntries()) {
+        const sortKey = sortKeys.get(storedEntry.id);
+        if (!importedIds.has(storedEntry.id) && sortKey !== undefined && storedEntry.sortKey !== sortKey) {
+          renumberedEntries.push({ ...storedEntry, sortKey });
+        }
       }
     }
 
-    if (data.settings) {
-      for (const [key, value] of Object.entries(data.settings)) {
-        await this.saveSetting(key, value);
+    // Encrypt in memory first: IndexedDB transactions cannot stay open across WebCrypto calls
+    const storedEntries = await Promise.all(entries.map(entry =>
+      this.encodeEntry(entry, sealMetadata, sortKeys.get(entry.id) ?? entry.timestamp.getTime())
+    ));
+    const storedSessions = await Promise.all(sessions.map(session => this.encodeSession(session)));
+    const storedMessages = encryptionManager.isInitialized()
+      ? await Promise.all(messages.map(message => encryptionManager.encryptMessage(message)))
+      : messages;
+
+    // Preferences only; encryption state always stays with this journal
+    const importedSettings = Object.entries(settings).filter(([key, value]) => {
+      if (key === 'aiProvider') return isAIProviderConfig(value);
+      if (key === 'autoLock') return isAutoLockSettings(value);
+      return IMPORTABLE_SETTINGS.includes(key);
+    });
+
+    // Import everything in one transaction so a failure leaves the journal untouched
+    await this.backend.runTransaction(
+      [STORES.ENTRIES, STORES.SESSIONS, STORES.MESSAGES, STORES.SETTINGS],
+      'readwrite',
+      async (tx) => {
+        await Promise.all([
+          ...[...renumberedEntries, ...storedEntries].map(entry => tx.put(STORES.ENTRIES, entry)),
+          ...storedSessions.map(session => tx.put(STORES.SESSIONS, session)),
+          ...storedMessages.map(message => tx.put(STORES.MESSAGES, message)),
+          ...importedSettings.map(([key, value]) => tx.put(STORES.SETTINGS, { key, value })),
+        ]);
       }
-    }
+    );
   }
 
   // Clear all data
   async clearAllData(): Promise<void> {
     this.ensureInitialized();
 
-    const entries = await dbManager.getAllEntries();
-    const sessions = await dbManager.getAllSessions();
+    await this.backend.runTransaction(
+      [STORES.ENTRIES, STORES.SESSIONS, STORES.MESSAGES, STORES.ANALYSIS_CACHE],
+      'readwrite',
+      async (tx) => {
+        await Promise.all([
+          tx.clear(STORES.ENTRIES),
+          tx.clear(STORES.SESSIONS),
+          tx.clear(STORES.MESSAGES),
+          tx.clear(STORES.ANALYSIS_CACHE),
+        ]);
+      }
+    );
 
-    // Delete all entries
-    for (const entry of entries) {
-      await dbManager.deleteEntry(entry.id);
+    // Clear encryption state
+    encryptionManager.clear();
+  }
+
+  // Erase everything this device keeps for the journal: the whole database with its keys and
+  // settings, the pre-envelope salt, and analysis and provider settings held in memory
+  async panicWipe(): Promise<void> {
+    encryptionManager.clear();
+    aiService.setCacheStore(null);
+    aiService.configureProvider(DEFAULT_AI_PROVIDER_CONFIG);
+    autoLockManager.configure(DEFAULT_AUTO_LOCK_SETTINGS);
+
+    // Empty the stores first so nothing survives if another tab holds up the delete
+    await this.backend.init();
+    const storeNames = Object.values(STORES);
+    await this.backend.runTransaction(storeNames, 'readwrite', async (tx) => {
+      await Promise.all(storeNames.map(storeName => tx.clear(storeName)));
+    });
+    await this.backend.destroy();
+
+    if (typeof localStorage !== 'undefined') {
+      localStorage.removeItem(LEGACY_SALT_STORAGE_KEY);
     }
+    this.initialized = false;
+  }
 
-    // Delete all sessions
-    for (const session of sessions) {
-      await dbManager.deleteSession(session.id);
+  // Set a second password that wipes the journal when entered at the unlock prompt
+  async setDuressPassword(duressPassword: string, action: DuressAction): Promise<void> {
+    this.ensureInitialized();
+
+    if (!encryptionManager.isInitialized()) {
+      throw new Error('Unlock the journal before setting a duress password');
     }
 
-    // Clear encryption state
-    encryptionManager.clear();
+    // The real password is tried first, so a matching duress password could never fire
+    try {
+      await unwrapDataKey(await this.getKeyEnvelope(), duressPassword);
+      throw new Error('Duress password must differ from your password');
+    } catch (error) {
+      if (!(error instanceof WrongPasswordError)) throw error;
+    }
+
+    const duress: DuressConfig = {
+      envelope: await wrapDataKey(await generateEncryptionKey(), duressPassword, await this.getKdfIterations()),
+      action,
+    };
+    await this.backend.putMany(STORES.SETTINGS, [{ key: DURESS_KEY, value: duress }]);
+  }
+
+  async removeDuressPassword(): Promise<void> {
+    this.ensureInitialized();
+
+    await this.backend.deleteMany(STORES.SETTINGS, [DURESS_KEY]);
   }
 
-  // Encryption management
-  async enableEncryption(password: string): Promise<void> {
+  // The configured action, or null when no duress password is set
+  async getDuressAction(): Promise<DuressAction | null> {
     this.ensureInitialized();
 
-    // Get all existing entries
-    const entries = await dbManager.getAllEntries();
+    const duress = await this.backend.getSetting(DURESS_KEY) as DuressConfig | undefined;
+    return duress?.action ?? null;
+  }
+
+  private async getDuressActionFor(password: string): Promise<DuressAction | null> {
+    const duress = await this.backend.getSetting(DURESS_KEY) as DuressConfig | undefined;
+    if (!duress) return null;
+
+    try {
+      await unwrapDataKey(duress.envelope, password);
+      return duress.action;
+    } catch (error) {
+      if (error instanceof WrongPasswordError) return null;
+      throw error;
+    }
+  }
+
+  // Runs in place of a normal unlock, so to whoever is watching it looks like one
+  private async runDuressAction(action: DuressAction, password: string): Promise<void> {
+    await this.panicWipe();
+    await this.backend.init();
+
+    if (action === 'decoy') {
+      // An empty journal that opens with the duress password; its recovery key is never shown
+      this.initialized = true;
+      await this.enableEncryption(password);
+    }
+  }
+
+  // Encryption management; returns the recovery key, which is shown once and never stored
+  async enableEncryption(password: string): Promise<string> {
+    this.ensureInitialized();
+
+    // Get all existing entries, sessions and transcripts
+    const entries = await this.backend.getAllEntries();
+    const sessions = await this.backend.getAllSessions();
+    const messages = await this.backend.getAllMessages();
     
-    // Initialize encryption
-    await encryptionManager.initializeWithPassword(password);
+    // Random data key for the content, wrapped by the password and separately by a recovery key
+    const dataKey = await generateEncryptionKey();
+    const iterations = await this.getKdfIterations();
+    const envelope = await wrapDataKey(dataKey, password, iterations);
+    const recoveryKey = generateRecoveryKey();
+    const recoveryEnvelope = await wrapDataKey(dataKey, recoveryKey, iterations);
+    await encryptionManager.initializeWithEnvelope(envelope, password);
+
+    // A fresh index key, sealed under the new data key and written with the envelope; any index
+    // key left from an earlier encryption is replaced
+    const indexKey = await generateIndexKey();
+    encryptionManager.setIndexKey(indexKey);
     
-    // Re-encrypt all existing entries
-    for (const entry of entries) {
-      if (!entry.encrypted) {
-        const encryptedEntry = await encryptionManager.encryptEntry({
-          content: entry.content,
-          emojis: entry.emojis,
-          timestamp: entry.timestamp,
-          tags: entry.tags,
-          mood: entry.mood,
-        });
-        await dbManager.updateEntry(encryptedEntry);
+    try {
+      const sealedIndexKey = await sealIndexKey(indexKey, dataKey);
+
+      // Encrypt in memory first: IndexedDB transactions cannot stay open across WebCrypto calls
+      const encryptedEntries: JournalEntry[] = [];
+      for (const entry of entries) {
+        if (!entry.encrypted) {
+          encryptedEntries.push({
+            ...(await encryptionManager.encryptContent(entry)),
+            updatedAt: new Date(),
+            wordTokens: await this.getEntryWordTokens(entry),
+          });
+        }
       }
+
+      const encryptedSessions = await Promise.all(
+        sessions
+          .filter(session => !session.encrypted)
+          .map(session => encryptionManager.sealSession(session, false))
+      );
+
+      const encryptedMessages = await Promise.all(
+        messages
+          .filter(message => !message.encrypted)
+          .map(message => encryptionManager.encryptMessage(message))
+      );
+
+      // Write every ciphertext, the envelope and the flag together so the journal is never half-encrypted.
+      // Cached analysis was stored in plaintext, so it goes too.
+      await this.backend.runTransaction(ENCRYPTION_STORES, 'readwrite', async (tx) => {
+        await Promise.all([
+          tx.clear(STORES.ANALYSIS_CACHE),
+          ...encryptedEntries.map(entry => tx.put(STORES.ENTRIES, entry)),
+          ...encryptedSessions.map(session => tx.put(STORES.SESSIONS, session)),
+          ...encryptedMessages.map(message => tx.put(STORES.MESSAGES, message)),
+          tx.put(STORES.SETTINGS, { key: KEY_ENVELOPE_KEY, value: envelope }),
+          tx.put(STORES.SETTINGS, { key: RECOVERY_ENVELOPE_KEY, value: recoveryEnvelope }),
+          tx.put(STORES.SETTINGS, { key: INDEX_KEY_KEY, value: sealedIndexKey }),
+          tx.put(STORES.SETTINGS, { key: 'encryptionEnabled', value: true }),
+        ]);
+      });
+    } catch (error) {
+      encryptionManager.clear();
+      throw error;
     }
 
-    await this.saveSetting('encryptionEnabled', true);
+    return recoveryKey;
   }
 
   async disableEncryption(password: string): Promise<void> {
@@ -432,19 +1328,195 @@ async saveSetting(key: string, value: unknown): Promise<void> {
       throw new Error('Encryption not enabled');
     }
 
-    // Decrypt all entries
-    const entries = await dbManager.getAllEntries();
+    // Throws WrongPasswordError before anything is decrypted
+    await unwrapDataKey(await this.getKeyEnvelope(), password);
+
+    // Decrypt all entries in memory, then write them back in a single transaction
+    const entries = await this.backend.getAllEntries();
+    const decryptedEntries: JournalEntry[] = [];
     for (const entry of entries) {
       if (entry.encrypted) {
         const decryptedEntry = await encryptionManager.decryptEntry(entry);
-        decryptedEntry.encrypted = false;
-        await dbManager.updateEntry(decryptedEntry);
+        decryptedEntries.push({
+          ...decryptedEntry,
+          encrypted: false,
+          iv: undefined,
+          updatedAt: new Date(),
+          sortKey: decryptedEntry.timestamp.getTime(),
+          wordTokens: undefined,
+        });
       }
     }
 
+    const sessions = await this.backend.getAllSessions();
+    const decryptedSessions = await Promise.all(
+      sessions
+        .filter(session => session.encrypted)
+        .map(session => encryptionManager.openSession(session))
+    );
+
+    const messages = await this.backend.getAllMessages();
+    const decryptedMessages = await Promise.all(
+      messages
+        .filter(message => message.encrypted)
+        .map(message => encryptionManager.decryptMessage(message))
+    );
+
+    // Cached analysis was encrypted with the key that is going away
+    await this.backend.runTransaction(ENCRYPTION_STORES, 'readwrite', async (tx) => {
+      await Promise.all([
+        tx.clear(STORES.ANALYSIS_CACHE),
+        ...decryptedEntries.map(entry => tx.put(STORES.ENTRIES, entry)),
+        ...decryptedSessions.map(session => tx.put(STORES.SESSIONS, session)),
+        ...decryptedMessages.map(message => tx.put(STORES.MESSAGES, message)),
+        tx.delete(STORES.SETTINGS, KEY_ENVELOPE_KEY),
+        tx.delete(STORES.SETTINGS, RECOVERY_ENVELOPE_KEY),
+        tx.delete(STORES.SETTINGS, INDEX_KEY_KEY),
+        tx.delete(STORES.SETTINGS, DURESS_KEY),
+        tx.put(STORES.SETTINGS, { key: 'encryptionEnabled', value: false }),
+        tx.put(STORES.SETTINGS, { key: 'encryptMetadata', value: false }),
+      ]);
+    });
+
     // Clear encryption
     encryptionManager.clear();
-    await this.saveSetting('encryptionEnabled', false);
+  }
+
+  // Rewrap the data key under a new password; entries are untouched
+  async changePassword(currentPassword: string, newPassword: string): Promise<void> {
+    this.ensureInitialized();
+
+    const dataKey = await unwrapDataKey(await this.getKeyEnvelope(), currentPassword, true);
+    // The real password is tried first, so a matching duress password could never fire
+    if (await this.getDuressActionFor(newPassword)) {
+      throw new Error('New password must differ from the duress password');
+    }
+    const envelope = await wrapDataKey(dataKey, newPassword, await this.getKdfIterations());
+    await this.backend.putMany(STORES.SETTINGS, [{ key: KEY_ENVELOPE_KEY, value: envelope }]);
+    console.log('🔑 Journal password changed');
+  }
+
+  // Replace the recovery key; the previous one stops working
+  async createRecoveryKey(password: string): Promise<string> {
+    this.ensureInitialized();
+
+    const dataKey = await unwrapDataKey(await this.getKeyEnvelope(), password, true);
+    const recoveryKey = generateRecoveryKey();
+    const recoveryEnvelope = await wrapDataKey(dataKey, recoveryKey, await this.getKdfIterations());
+    await this.backend.putMany(STORES.SETTINGS, [{ key: RECOVERY_ENVELOPE_KEY, value: recoveryEnvelope }]);
+    return recoveryKey;
+  }
+
+  async hasRecoveryKey(): Promise<boolean> {
+    this.ensureInitialized();
+
+    return (await this.backend.getSetting(RECOVERY_ENVELOPE_KEY)) !== undefined;
+  }
+
+  // Re-encrypt everything under a fresh data key, e.g. after the old one may have leaked.
+  // The old recovery key wraps the old data key, so a new one is issued and returned.
+  async rotateDataKey(password: string, onProgress?: KeyRotationProgressListener): Promise<string> {
+    this.ensureInitialized();
+
+    const oldKey = await unwrapDataKey(await this.getKeyEnvelope(), password);
+    const newDataKey = await generateEncryptionKey();
+    const iterations = await this.getKdfIterations();
+    const envelope = await wrapDataKey(newDataKey, password, iterations);
+    const recoveryKey = generateRecoveryKey();
+    const recoveryEnvelope = await wrapDataKey(newDataKey, recoveryKey, iterations);
+
+    // The blind index key itself is unchanged, so tag tokens stay valid; only its seal moves to the new key
+    const sealedIndexKey = await this.backend.getSetting(INDEX_KEY_KEY) as SealedIndexKey | undefined;
+    const resealedIndexKey = sealedIndexKey
+      ? await sealIndexKey(await openIndexKey(sealedIndexKey, oldKey, true), newDataKey)
+      : undefined;
+
+    const entries = (await this.backend.getAllEntries()).filter(entry => entry.encrypted);
+    const sessions = (await this.backend.getAllSessions()).filter(session => session.encrypted);
+    const messages = (await this.backend.getAllMessages()).filter(message => message.encrypted);
+    const total = entries.length + sessions.length + messages.length;
+    let completed = 0;
+    onProgress?.(completed, total);
+
+    // Re-encrypt in memory first: IndexedDB transactions cannot stay open across WebCrypto calls
+    const rotatedEntries: JournalEntry[] = [];
+    for (const entry of entries) {
+      const decryptedEntry = await decryptJournalEntry(entry, oldKey);
+      if (entry.metadataEncrypted) {
+        // The index key is only resealed, so tag and word tokens stay valid
+        rotatedEntries.push({
+          ...(await sealJournalEntry(decryptedEntry, newDataKey, entry.sortKey ?? 0, entry.tagTokens ?? [])),
+          wordTokens: entry.wordTokens,
+        });
+      } else {
+        rotatedEntries.push({ ...(await encryptJournalContent(decryptedEntry, newDataKey)), updatedAt: new Date() });
+      }
+      onProgress?.(++completed, total);
+    }
+
+    const rotatedSessions: ChatSession[] = [];
+    for (const session of sessions) {
+      const openedSession = await openChatSession(session, oldKey);
+      rotatedSessions.push(await sealChatSession(openedSession, newDataKey, Boolean(session.metadataEncrypted)));
+      onProgress?.(++completed, total);
+    }
+
+    const rotatedMessages: ChatMessage[] = [];
+    for (const message of messages) {
+      const decryptedMessage = await decryptChatMessage(message, oldKey);
+      rotatedMessages.push(await encryptChatMessage(decryptedMessage, newDataKey));
+      onProgress?.(++completed, total);
+    }
+
+    // Swap every ciphertext and the envelope together; a failure leaves the old key in charge.
+    // Cached analysis is cheaper to recompute than to re-encrypt.
+    await this.backend.runTransaction(ENCRYPTION_STORES, 'readwrite', async (tx) => {
+      await Promise.all([
+        tx.clear(STORES.ANALYSIS_CACHE),
+        ...rotatedEntries.map(entry => tx.put(STORES.ENTRIES, entry)),
+        ...rotatedSessions.map(session => tx.put(STORES.SESSIONS, session)),
+        ...rotatedMessages.map(message => tx.put(STORES.MESSAGES, message)),
+        tx.put(STORES.SETTINGS, { key: KEY_ENVELOPE_KEY, value: envelope }),
+        tx.put(STORES.SETTINGS, { key: RECOVERY_ENVELOPE_KEY, value: recoveryEnvelope }),
+        ...(resealedIndexKey ? [tx.put(STORES.SETTINGS, { key: INDEX_KEY_KEY, value: resealedIndexKey })] : []),
+      ]);
+    });
+
+    await encryptionManager.initializeWithEnvelope(envelope, password);
+    console.log(`🔑 Rotated data key and re-encrypted ${total} records`);
+    return recoveryKey;
+  }
+
+  // Seal or unseal tags, mood, timestamps and session times for every entry and session at once
+  async setMetadataEncryption(enabled: boolean): Promise<void> {
+    this.ensureInitialized();
+
+    if (!encryptionManager.isInitialized()) {
+      throw new Error('Encryption not enabled');
+    }
+
+    // Newest first; sealed sort keys count up from the oldest entry so paging order is unchanged
+    const entries = await this.getAllJournalEntries();
+    const encodedEntries = await Promise.all(
+      entries.map((entry, index) =>
+        this.encodeEntry(entry, enabled, enabled ? entries.length - index : entry.timestamp.getTime())
+      )
+    );
+
+    const sessions = await this.getAllChatSessions();
+    const encodedSessions = await Promise.all(
+      sessions.map(session => encryptionManager.sealSession(session, enabled))
+    );
+
+    await this.backend.runTransaction([STORES.ENTRIES, STORES.SESSIONS, STORES.SETTINGS], 'readwrite', async (tx) => {
+      await Promise.all([
+        ...encodedEntries.map(entry => tx.put(STORES.ENTRIES, entry)),
+        ...encodedSessions.map(session => tx.put(STORES.SESSIONS, session)),
+        tx.put(STORES.SETTINGS, { key: 'encryptMetadata', value: enabled }),
+      ]);
+    });
+
+    console.log(`🔐 Metadata encryption ${enabled ? 'enabled' : 'disabled'} for ${entries.length} entries`);
   }
 
   isEncryptionEnabled(): boolean {
@@ -453,12 +1525,17 @@ async saveSetting(key: string, value: unknown): Promise<void> {
 
   // Cleanup method to remove duplicate entries from existing data
   async cleanupDuplicateEntries(): Promise<{ removedEntries: number; updatedSessions: number }> {
-    this.ensureInitialized();
+    await this.ensureWritable();
 
     console.log('🧹 Starting cleanup of duplicate entries...');
     
-    const allEntries = await dbManager.getAllEntries();
-    const allSessions = await dbManager.getAllSessions();
+    // Sealed entries all store the epoch and ciphertext, so entries are compared once decrypted
+    const allEntries = await Promise.all(
+      (await this.backend.getAllEntries()).map(entry =>
+        entry.encrypted && encryptionManager.isInitialized() ? encryptionManager.decryptEntry(entry) : entry
+      )
+    );
+    const allSessions = await this.backend.getAllSessions();
     
     let removedEntries = 0;
     let updatedSessions = 0;
@@ -467,8 +1544,9 @@ async saveSetting(key: string, value: unknown): Promise<void> {
     const entryGroups = new Map<string, JournalEntry[]>();
     
     for (const entry of allEntries) {
-      const content = typeof entry.content === 'string' ? entry.content : '[encrypted]';
-      const key = `${content}-${entry.timestamp.getTime()}`;
+      // Entries that can't be read can't be compared, so they are never removed
+      if (typeof entry.content !== 'string') continue;
+      const key = `${entry.content}-${entry.timestamp.getTime()}`;
       
       if (!entryGroups.has(key)) {
         entryGroups.set(key, []);
@@ -499,33 +1577,32 @@ async saveSetting(key: string, value: unknown): Promise<void> {
     
     // Remove duplicate entries
     for (const entryId of entriesToRemove) {
-      await dbManager.deleteEntry(entryId);
+      await this.backend.deleteEntry(entryId);
       removedEntries++;
     }
     
-    // Update sessions to use entryIds instead of full entries (if they still have the old format)
-    for (const session of allSessions) {
-      // Check if this session has the old format (entries property instead of entryIds)
-      if ('entries' in session && Array.isArray((session as unknown as { entries: JournalEntry[] }).entries)) {
-        console.log(`Updating session ${session.id} from old format to new format`);
-        
-        const oldEntries = (session as unknown as { entries: JournalEntry[] }).entries;
-        const entryIds = oldEntries
-          .map(entry => entry.id)
-          .filter(id => entriesToKeep.has(id)); // Only keep IDs of entries that weren't removed
-        
-        const updatedSession: ChatSession = {
-          id: session.id,
-          entryIds,
-          startTime: session.startTime,
-          endTime: session.endTime,
-          summary: session.summary,
-        };
-        
-        await dbManager.updateSession(updatedSession);
-        updatedSessions++;
+    // Point sessions that referenced a removed duplicate at the entry that was kept
+    const keptIdByRemovedId = new Map<string, string>();
+    for (const entries of entryGroups.values()) {
+      const keptId = entries.find(entry => entriesToKeep.has(entry.id))?.id;
+      if (!keptId) continue;
+      for (const entry of entries) {
+        if (entriesToRemove.has(entry.id)) {
+          keptIdByRemovedId.set(entry.id, keptId);
+        }
       }
     }
+
+    for (const session of allSessions) {
+      if (!session.entryIds.some(entryId => keptIdByRemovedId.has(entryId))) continue;
+
+      const entryIds = Array.from(new Set(
+        session.entryIds.map(entryId => keptIdByRemovedId.get(entryId) ?? entryId)
+      ));
+
+      await this.backend.updateSession({ ...session, entryIds });
+      updatedSessions++;
+    }
     
     console.log(`✅ Cleanup complete: Removed ${removedEntries} duplicate entries, updated ${updatedSessions} sessions`);
     
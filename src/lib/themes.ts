@@ -0,0 +1,261 @@
+// Offline theme discovery: key phrases weighted by TF-IDF against the user's own journal, and
+// entries clustered into topics around them
+export interface ThemeDocument {
+  id: string;
+  text: string;
+}
+
+export interface ThemeCluster {
+  name: string;
+  keywords: string[];
+  entryIds: string[]; // Most representative first
+  exampleEntryIds: string[];
+}
+
+type TermVector = Map<string, number>;
+
+// Function words and journaling filler that never make a theme on their own
+const STOP_WORDS = new Set([
+  'the', 'and', 'but', 'for', 'nor', 'not', 'yet', 'you', 'your', 'yours', 'our', 'ours', 'his', 'her', 'hers',
+  'she', 'him', 'its', 'who', 'whom', 'whose', 'which', 'this', 'that', 'these', 'those', 'with', 'without',
+  'have', 'has', 'had', 'having', 'was', 'were', 'are', 'been', 'being', 'will', 'would', 'could', 'should',
+  'shall', 'might', 'must', 'can', 'cannot', 'did', 'does', 'doing', 'done', 'they', 'them', 'their', 'theirs',
+  'there', 'here', 'when', 'where', 'what', 'why', 'how', 'about', 'after', 'before', 'during', 'through',
+  'into', 'onto', 'over', 'under', 'again', 'then', 'than', 'because', 'while', 'though', 'although', 'also',
+  'just', 'only', 'very', 'really', 'much', 'many', 'more', 'most', 'some', 'any', 'all', 'each', 'every',
+  'other', 'another', 'such', 'same', 'own', 'too', 'still', 'even', 'ever', 'never', 'always', 'maybe',
+  'perhaps', 'pretty', 'quite', 'rather', 'from', 'off', 'out', 'down', 'around', 'until', 'since', 'upon',
+  'like', 'want', 'wanted', 'need', 'needed', 'know', 'knew', 'think', 'thought', 'feel', 'felt', 'feeling',
+  'get', 'got', 'getting', 'make', 'made', 'making', 'going', 'went', 'come', 'came', 'take', 'took', 'say',
+  'said', 'see', 'saw', 'let', 'lot', 'lots', 'bit', 'thing', 'things', 'something', 'anything', 'nothing',
+  'everything', 'someone', 'anyone', 'everyone', 'way', 'well', 'yes', 'yeah', 'okay', 'now', 'back', 'one',
+  'two', 'first', 'last', 'next', 'time', 'times', 'day', 'days', 'today', 'tonight', 'yesterday', 'tomorrow',
+  'morning', 'afternoon', 'evening', 'night', 'week', 'good', 'great', 'bad', 'better', 'best', 'kind', 'sort',
+  'dont', 'didnt', 'doesnt', 'cant', 'couldnt', 'wont', 'wouldnt', 'shouldnt', 'isnt', 'wasnt', 'arent',
+  'werent', 'ive', 'ill', 'youre', 'thats', 'theres', 'whats', 'lets',
+]);
+
+const WORD_PATTERN = /[\p{L}\p{N}'’]+/gu;
+// Phrases never span punctuation
+const CHUNK_PATTERN = /[.,!?;:()[\]{}"“”\n]+/;
+const MIN_WORD_LENGTH = 3;
+// Multi-word phrases are more specific than single words, so they count for more
+const PHRASE_WEIGHT = 1.5;
+
+const MAX_CLUSTERS = 8;
+const MAX_CLUSTER_ITERATIONS = 10;
+// Entries less similar than this to every topic are left out rather than forced into one
+const MIN_CLUSTER_SIMILARITY = 0.1;
+const MIN_CLUSTER_ENTRIES = 2;
+const CLUSTER_KEYWORD_LIMIT = 5;
+const CLUSTER_EXAMPLE_LIMIT = 3;
+
+// Lowercase, possessives and apostrophes dropped and simple plurals folded ("meetings" -> "meeting")
+function normalizeWord(word: string): string {
+  const plain = word.toLowerCase().replace(/['’]s$/, '').replace(/['’]/g, '');
+  if (plain.length > 4 && plain.endsWith('s') && !/(ss|us|is)$/.test(plain)) {
+    return plain.endsWith('ies') ? `${plain.slice(0, -3)}y` : plain.slice(0, -1);
+  }
+  return plain;
+}
+
+function isCandidateWord(word: string): boolean {
+  return word.length >= MIN_WORD_LENGTH && !STOP_WORDS.has(word) && !/^\d+$/.test(word);
+}
+
+// Candidate terms in a text, repeats included: every content word, plus each pair of adjacent
+// content words as a phrase ("work project")
+export function extractPhrases(text: string): string[] {
+  const terms: string[] = [];
+
+  for (const chunk of text.split(CHUNK_PATTERN)) {
+    let run: string[] = [];
+    const flush = () => {
+      terms.push(...run);
+      for (let i = 0; i + 1 < run.length; i++) {
+        terms.push(`${run[i]} ${run[i + 1]}`);
+      }
+      run = [];
+    };
+
+    for (const match of chunk.matchAll(WORD_PATTERN)) {
+      const word = normalizeWord(match[0]);
+      if (isCandidateWord(word)) {
+        run.push(word);
+      } else {
+        flush();
+      }
+    }
+    flush();
+  }
+
+  return terms;
+}
+
+function termWeight(term: string, count: number): number {
+  return (1 + Math.log(count)) * (term.includes(' ') ? PHRASE_WEIGHT : 1);
+}
+
+// L2-normalized TF-IDF vectors, with document frequencies taken from the whole corpus. A phrase
+// only counts once it recurs, in the entry or across the corpus.
+export function buildTermVectors(documents: ThemeDocument[]): Map<string, TermVector> {
+  const counts = documents.map(document => {
+    const termCounts = new Map<string, number>();
+    extractPhrases(document.text).forEach(term => termCounts.set(term, (termCounts.get(term) ?? 0) + 1));
+    return termCounts;
+  });
+
+  const documentFrequency = new Map<string, number>();
+  counts.forEach(termCounts => {
+    termCounts.forEach((_, term) => documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1));
+  });
+
+  const vectors = new Map<string, TermVector>();
+  documents.forEach((document, index) => {
+    const vector: TermVector = new Map();
+    counts[index].forEach((count, term) => {
+      if (term.includes(' ') && count < 2 && documentFrequency.get(term)! < 2) return;
+      const idf = Math.log((1 + documents.length) / (1 + documentFrequency.get(term)!)) + 1;
+      vector.set(term, termWeight(term, count) * idf);
+    });
+    vectors.set(document.id, normalizeVector(vector));
+  });
+  return vectors;
+}
+
+function normalizeVector(vector: TermVector): TermVector {
+  const norm = Math.sqrt(Array.from(vector.values()).reduce((sum, weight) => sum + weight * weight, 0));
+  if (norm === 0) return vector;
+  return new Map(Array.from(vector, ([term, weight]) => [term, weight / norm]));
+}
+
+function cosine(a: TermVector, b: TermVector): number {
+  const [small, large] = a.size <= b.size ? [a, b] : [b, a];
+  let dot = 0;
+  small.forEach((weight, term) => {
+    dot += weight * (large.get(term) ?? 0);
+  });
+  return dot;
+}
+
+// Highest-scoring terms, a phrase taking the place of a single word of it picked earlier and
+// single words already covered by a phrase skipped. Given an entry's vector, these are its most
+// distinctive phrases relative to the corpus.
+export function topTerms(scores: Iterable<[string, number]>, limit: number): string[] {
+  const picked: string[] = [];
+  const sorted = Array.from(scores)
+    .filter(([, score]) => score > 0)
+    .sort(([termA, a], [termB, b]) => b - a || (termA < termB ? -1 : termA > termB ? 1 : 0));
+
+  for (const [term] of sorted) {
+    const words = term.split(' ');
+    if (words.length > 1) {
+      const replaced = picked.findIndex(chosen => words.includes(chosen));
+      if (replaced >= 0) {
+        picked[replaced] = term;
+        continue;
+      }
+    } else if (picked.some(chosen => chosen.split(' ').includes(term))) {
+      continue;
+    }
+    if (picked.length >= limit) break;
+    picked.push(term);
+  }
+  return picked;
+}
+
+function centroidOf(vectors: TermVector[]): TermVector {
+  const sum: TermVector = new Map();
+  vectors.forEach(vector => {
+    vector.forEach((weight, term) => sum.set(term, (sum.get(term) ?? 0) + weight));
+  });
+  return normalizeVector(sum);
+}
+
+// Spread the starting topics out: the entry closest to the journal as a whole, then repeatedly
+// the entry least like any topic picked so far
+function initialCentroids(vectors: TermVector[], count: number): TermVector[] {
+  const overall = centroidOf(vectors);
+  let first = 0;
+  vectors.forEach((vector, index) => {
+    if (cosine(vector, overall) > cosine(vectors[first], overall)) first = index;
+  });
+
+  const centroids = [vectors[first]];
+  const closest = vectors.map(vector => cosine(vector, vectors[first]));
+  while (centroids.length < count) {
+    let farthest = 0;
+    closest.forEach((similarity, index) => {
+      if (similarity < closest[farthest]) farthest = index;
+    });
+    centroids.push(vectors[farthest]);
+    vectors.forEach((vector, index) => {
+      closest[index] = Math.max(closest[index], cosine(vector, vectors[farthest]));
+    });
+  }
+  return centroids;
+}
+
+// Group entries into named topics with spherical k-means over their TF-IDF vectors. Topics are
+// named after their most representative keywords; entries that fit no topic are left out.
+export function clusterThemes(documents: ThemeDocument[]): ThemeCluster[] {
+  const vectors = buildTermVectors(documents);
+  const ids = documents.map(document => document.id).filter(id => vectors.get(id)!.size > 0);
+  if (ids.length < MIN_CLUSTER_ENTRIES) return [];
+
+  const points = ids.map(id => vectors.get(id)!);
+  const clusterCount = Math.min(MAX_CLUSTERS, Math.max(1, Math.round(Math.sqrt(ids.length))));
+  let centroids = initialCentroids(points, clusterCount);
+  let assignments: number[] = [];
+
+  for (let iteration = 0; iteration < MAX_CLUSTER_ITERATIONS; iteration++) {
+    const next = points.map(point => {
+      let best = -1;
+      let bestSimilarity = MIN_CLUSTER_SIMILARITY;
+      centroids.forEach((centroid, index) => {
+        const similarity = cosine(point, centroid);
+        if (similarity >= bestSimilarity) {
+          best = index;
+          bestSimilarity = similarity;
+        }
+      });
+      return best;
+    });
+
+    const settled = next.every((cluster, index) => cluster === assignments[index]);
+    assignments = next;
+    if (settled) break;
+
+    centroids = centroids.map((centroid, cluster) => {
+      const members = points.filter((_, index) => assignments[index] === cluster);
+      return members.length > 0 ? centroidOf(members) : centroid;
+    });
+  }
+
+  return centroids
+    .map((centroid, cluster) => {
+      const members = points
+        .map((point, index) => ({ id: ids[index], point, similarity: cosine(point, centroid) }))
+        .filter((_, index) => assignments[index] === cluster)
+        .sort((a, b) => b.similarity - a.similarity);
+      if (members.length < MIN_CLUSTER_ENTRIES) return null;
+
+      // Keywords are shared by several members, favouring those most of the topic uses
+      const scores = new Map<string, number>();
+      centroid.forEach((weight, term) => {
+        const sharedBy = members.filter(member => member.point.has(term)).length;
+        if (sharedBy >= MIN_CLUSTER_ENTRIES) scores.set(term, weight * (sharedBy / members.length));
+      });
+      const keywords = topTerms(scores, CLUSTER_KEYWORD_LIMIT);
+      if (keywords.length === 0) return null;
+
+      return {
+        name: keywords.slice(0, 2).join(' & '),
+        keywords,
+        entryIds: members.map(member => member.id),
+        exampleEntryIds: members.slice(0, CLUSTER_EXAMPLE_LIMIT).map(member => member.id),
+      };
+    })
+    .filter((cluster): cluster is ThemeCluster => cluster !== null)
+    .sort((a, b) => b.entryIds.length - a.entryIds.length);
+}
@@ -0,0 +1,32 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import { encryptionManager } from './encryption';
+import { autoLockManager } from './autoLock';
+
+interface JournalLockHandlers {
+  onBeforeLock?: () => Promise<void> | void; // The key is still loaded, so writes are encrypted
+  onLock: () => void;
+  onUnlock: () => void;
+}
+
+// Purge decrypted page state when the journal locks and reload it once unlocked
+export const useJournalLock = (handlers: JournalLockHandlers) => {
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    const unsubscribeBeforeLock = autoLockManager.onBeforeLock(() => handlersRef.current.onBeforeLock?.());
+    const unsubscribeLock = encryptionManager.onLockStateChange((unlocked) => {
+      if (unlocked) {
+        handlersRef.current.onUnlock();
+      } else {
+        handlersRef.current.onLock();
+      }
+    });
+    return () => {
+      unsubscribeBeforeLock();
+      unsubscribeLock();
+    };
+  }, []);
+};